@@ -0,0 +1,111 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { CompilerError } from '@/compiler/compile';
+import { compileProject } from '@/compiler/compileProject';
+import { joinPath } from '@/compiler/helper';
+import type { CliOptions } from './config';
+import { expandInput } from './glob';
+
+export interface BuildResult {
+  /** generated code keyed by the absolute path of the output file */
+  outputs: Map<string, string>;
+  errors: CompilerError[];
+  warnings: CompilerError[];
+}
+
+/** path with `/` separators, as used by the project */
+function toProjectPath(file: string): string {
+  return file.split(path.sep).join('/');
+}
+
+/** compiles the inputs of a run, proto files are read once until they are invalidated */
+export class Builder {
+  private _options: CliOptions;
+  private _cwd: string;
+  /** contents of the files read by the project keyed by their path, `null` for missing files */
+  private _sources: Map<string, string | null> = new Map();
+
+  constructor(options: CliOptions, cwd: string) {
+    this._options = options;
+    this._cwd = cwd;
+  }
+
+  /** include paths relative to the working directory, the project drops leading slashes */
+  private _getIncludePaths(): string[] {
+    return this._options.includePaths.map((item) => toProjectPath(path.relative(this._cwd, item)));
+  }
+
+  private _load = (file: string): string | null => {
+    let source = this._sources.get(file);
+    if (source === undefined) {
+      const fullPath = path.resolve(this._cwd, file);
+      source = fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf8') : null;
+      this._sources.set(file, source);
+    }
+    return source;
+  };
+
+  /** forget the content of a changed, added or removed file */
+  invalidate(file: string): void {
+    this._sources.delete(toProjectPath(path.relative(this._cwd, file)));
+  }
+
+  /** path of an input relative to the first include path that contains it */
+  private _getEntry(file: string): string | null {
+    for (let i = 0; i < this._options.includePaths.length; i += 1) {
+      const relativePath = path.relative(this._options.includePaths[i], file);
+      if (!relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+        return toProjectPath(relativePath);
+      }
+    }
+    return null;
+  }
+
+  /** path of a project file as the user knows it, relative to the working directory */
+  getDisplayPath(file: string): string {
+    const includePaths = this._getIncludePaths();
+    for (let i = 0; i < includePaths.length; i += 1) {
+      const fullPath = joinPath(includePaths[i], file);
+      if (this._sources.get(fullPath)) {
+        return fullPath;
+      }
+    }
+    // bundled well-known types
+    return file;
+  }
+
+  /** `file:line:column: error P1003: message` */
+  formatDiagnostic(error: CompilerError): string {
+    const file = error.file === undefined ? '' : this.getDisplayPath(error.file);
+    const { line, column } = error.position;
+    const location = line > 0 ? `${file}:${line}:${column}` : file;
+    return `${location}: ${error.severity} ${error.code}: ${error.message}`;
+  }
+
+  build(): BuildResult {
+    const entries: string[] = [];
+    const files = new Set(this._options.inputs.flatMap((input) => expandInput(input, this._cwd)));
+    for (const file of files) {
+      const entry = this._getEntry(file);
+      if (entry === null) {
+        throw new Error(`${path.relative(this._cwd, file)} is not inside an include path`);
+      }
+      entries.push(entry);
+    }
+    if (entries.length === 0) {
+      throw new Error('No proto files match the inputs');
+    }
+
+    const output = compileProject(
+      entries,
+      { loader: this._load, includePaths: this._getIncludePaths() },
+      this._options.options,
+    );
+    const outputs = new Map<string, string>();
+    for (let i = 0; i < output.files.length; i += 1) {
+      const file = output.files[i];
+      outputs.set(path.join(this._options.out, file.path.replace(/\.proto$/, '.ts')), file.code);
+    }
+    return { outputs, errors: output.errors, warnings: output.warnings };
+  }
+}
@@ -0,0 +1,138 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import type { GenerateOptions } from '@/compiler/Generate';
+
+/** content of a `proto2ts.config.json` (or `.js` / `.mjs` with a default export) file */
+export interface CliConfig {
+  /** proto files, directories or glob patterns */
+  inputs?: string[];
+  /** directories that imports are resolved against, the current directory by default */
+  includePaths?: string[];
+  /** directory of the generated files, they mirror the tree below the include paths */
+  out?: string;
+  options?: Partial<GenerateOptions>;
+}
+
+export interface CliOptions {
+  /** absolute paths of the inputs, still to be expanded */
+  inputs: string[];
+  /** absolute paths of the include paths */
+  includePaths: string[];
+  /** absolute path of the output directory */
+  out: string;
+  watch: boolean;
+  check: boolean;
+  options: Partial<GenerateOptions>;
+}
+
+/** wrong arguments or an invalid config file, reported with the usage */
+export class UsageError extends Error {}
+
+export const CONFIG_FILES: string[] = [
+  'proto2ts.config.json',
+  'proto2ts.config.js',
+  'proto2ts.config.mjs',
+];
+
+export const USAGE = `Usage: proto2ts [options] <files, directories or globs...>
+
+Options:
+  -I, --include <dir>   directory that imports are resolved against, may be repeated
+  -o, --out <dir>       output directory, it mirrors the tree below the include paths
+  -c, --config <file>   config file, proto2ts.config.{json,js,mjs} is used when present
+  -w, --watch           regenerate the outputs when a proto file changes
+      --check           exit with 1 when an output is missing or stale, nothing is written
+  -h, --help            print this help
+  -v, --version         print the version`;
+
+async function loadConfig(file: string): Promise<CliConfig> {
+  if (file.endsWith('.json')) {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8')) as CliConfig;
+    } catch (error) {
+      throw new UsageError(`Invalid config file ${file}: ${(error as Error).message}`);
+    }
+  }
+  const module = (await import(pathToFileURL(file).href)) as { default?: CliConfig };
+  return module.default ?? {};
+}
+
+function findConfig(cwd: string): string | null {
+  for (let i = 0; i < CONFIG_FILES.length; i += 1) {
+    const file = path.join(cwd, CONFIG_FILES[i]);
+    if (fs.existsSync(file)) {
+      return file;
+    }
+  }
+  return null;
+}
+
+/** options of a run from the command line arguments and the config file, flags take precedence */
+export async function getCliOptions(
+  args: string[],
+  cwd: string,
+): Promise<CliOptions | 'help' | 'version'> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        include: { type: 'string', short: 'I', multiple: true },
+        out: { type: 'string', short: 'o' },
+        config: { type: 'string', short: 'c' },
+        watch: { type: 'boolean', short: 'w', default: false },
+        check: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+        version: { type: 'boolean', short: 'v', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    return 'help';
+  }
+  if (values.version) {
+    return 'version';
+  }
+
+  const configFile = values.config ? path.resolve(cwd, values.config) : findConfig(cwd);
+  if (configFile !== null && !fs.existsSync(configFile)) {
+    throw new UsageError(`Config file not found: ${values.config}`);
+  }
+  const config = configFile === null ? {} : await loadConfig(configFile);
+  // paths of the config file are relative to its directory
+  const configDirectory = configFile === null ? cwd : path.dirname(configFile);
+  const resolve = (directory: string, items: string[]) =>
+    items.map((item) => path.resolve(directory, item));
+
+  const inputs =
+    positionals.length > 0
+      ? resolve(cwd, positionals)
+      : resolve(configDirectory, config.inputs ?? []);
+  const includePaths = values.include
+    ? resolve(cwd, values.include)
+    : resolve(configDirectory, config.includePaths ?? ['.']);
+  const out = values.out ?? (config.out && path.resolve(configDirectory, config.out));
+  if (inputs.length === 0) {
+    throw new UsageError('No input files');
+  }
+  if (!out) {
+    throw new UsageError('No output directory, use --out');
+  }
+  if (values.watch && values.check) {
+    throw new UsageError('--watch and --check cannot be used together');
+  }
+  return {
+    inputs,
+    includePaths,
+    out: path.resolve(cwd, out),
+    watch: values.watch,
+    check: values.check,
+    options: config.options ?? {},
+  };
+}
@@ -0,0 +1,104 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { UsageError } from './config';
+
+/** directories that are never searched for proto files */
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+export function isGlob(input: string): boolean {
+  return /[*?{[]/.test(input);
+}
+
+/** regular expression of a glob pattern with `**`, `*`, `?`, `[...]` and `{a,b}` */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braces += 1;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces -= 1;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** every file below `directory`, as paths relative to it with `/` separators */
+function walk(directory: string, prefix: string = ''): string[] {
+  const files: string[] = [];
+  const entries = fs.readdirSync(directory, { withFileTypes: true });
+  for (let i = 0; i < entries.length; i += 1) {
+    const entry = entries[i];
+    const relativePath = `${prefix}${entry.name}`;
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        files.push(...walk(path.join(directory, entry.name), `${relativePath}/`));
+      }
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/** leading segments of a pattern without glob characters, the directory to search */
+export function getGlobBase(pattern: string): string {
+  const segments = pattern.replace(/\\/g, '/').split('/');
+  const base: string[] = [];
+  for (let i = 0; i < segments.length - 1 && !isGlob(segments[i]); i += 1) {
+    base.push(segments[i]);
+  }
+  return base.join('/') || '.';
+}
+
+/**
+ * absolute paths of the proto files matched by an input: a file, a directory (every `.proto` file
+ * below it) or a glob pattern relative to `cwd`, a file or directory that does not exist is a
+ * `UsageError` while a glob may match nothing
+ */
+export function expandInput(input: string, cwd: string): string[] {
+  const fullPath = path.resolve(cwd, input);
+  if (!isGlob(input)) {
+    if (fs.existsSync(fullPath) && fs.statSync(fullPath).isDirectory()) {
+      return walk(fullPath)
+        .filter((file) => file.endsWith('.proto'))
+        .map((file) => path.join(fullPath, file));
+    }
+    if (!fs.existsSync(fullPath)) {
+      throw new UsageError(`No such file or directory: ${path.relative(cwd, fullPath)}`);
+    }
+    return [fullPath];
+  }
+  const base = path.resolve(cwd, getGlobBase(input));
+  if (!fs.existsSync(base)) {
+    return [];
+  }
+  const pattern = globToRegExp(path.relative(base, fullPath).replace(/\\/g, '/'));
+  return walk(base)
+    .filter((file) => pattern.test(file))
+    .map((file) => path.join(base, file));
+}
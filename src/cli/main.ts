@@ -0,0 +1,126 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { version } from '~/package.json';
+import { Builder, type BuildResult } from './Builder';
+import { getCliOptions, UsageError, USAGE, type CliOptions } from './config';
+import { getGlobBase, isGlob } from './glob';
+
+/** delay before a rebuild in watch mode, editors often write a file in several steps */
+const WATCH_DELAY = 50;
+
+function report(builder: Builder, result: BuildResult) {
+  const diagnostics = [...result.errors, ...result.warnings];
+  for (let i = 0; i < diagnostics.length; i += 1) {
+    console.error(builder.formatDiagnostic(diagnostics[i]));
+  }
+}
+
+function isUpToDate(file: string, code: string): boolean {
+  return fs.existsSync(file) && fs.readFileSync(file, 'utf8') === code;
+}
+
+/** write the outputs whose content changed, returns the number of written files */
+function write(result: BuildResult): number {
+  let count = 0;
+  for (const [file, code] of result.outputs) {
+    if (!isUpToDate(file, code)) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, code);
+      count += 1;
+    }
+  }
+  return count;
+}
+
+function check(result: BuildResult, cwd: string): number {
+  const stale = [...result.outputs].filter(([file, code]) => !isUpToDate(file, code));
+  for (let i = 0; i < stale.length; i += 1) {
+    console.error(`${path.relative(cwd, stale[i][0])}: output is stale`);
+  }
+  return stale.length > 0 ? 1 : 0;
+}
+
+function build(builder: Builder, options: CliOptions, cwd: string): number {
+  const result = builder.build();
+  report(builder, result);
+  if (result.errors.length > 0 && result.outputs.size === 0) {
+    return 1;
+  }
+  if (options.check) {
+    return check(result, cwd);
+  }
+  const count = write(result);
+  console.log(
+    `${count} of ${result.outputs.size} files written to ${path.relative(cwd, options.out) || '.'}`,
+  );
+  return result.errors.length > 0 ? 1 : 0;
+}
+
+/** rebuild whenever a proto file below an include path or an input directory changes */
+function watch(builder: Builder, options: CliOptions, cwd: string) {
+  const directories = new Set(options.includePaths);
+  for (let i = 0; i < options.inputs.length; i += 1) {
+    const input = options.inputs[i];
+    const directory = isGlob(input) ? getGlobBase(input) : input;
+    if (fs.existsSync(directory) && fs.statSync(directory).isDirectory()) {
+      directories.add(directory);
+    }
+  }
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const rebuild = () => {
+    timer = null;
+    try {
+      build(builder, options, cwd);
+    } catch (error) {
+      console.error((error as Error).message);
+    }
+  };
+  for (const directory of directories) {
+    fs.watch(directory, { recursive: true }, (_event, file) => {
+      if (file === null || !file.endsWith('.proto')) {
+        return;
+      }
+      builder.invalidate(path.join(directory, file));
+      if (timer !== null) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(rebuild, WATCH_DELAY);
+    });
+  }
+  console.log('Watching for changes...');
+}
+
+/** runs the CLI, resolves with the exit code, watch mode keeps the process alive */
+export async function main(args: string[], cwd: string = process.cwd()): Promise<number> {
+  let options;
+  try {
+    options = await getCliOptions(args, cwd);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+  if (options === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+  if (options === 'version') {
+    console.log(version);
+    return 0;
+  }
+
+  const builder = new Builder(options, cwd);
+  let code: number;
+  try {
+    code = build(builder, options, cwd);
+  } catch (error) {
+    console.error((error as Error).message);
+    code = 2;
+  }
+  if (options.watch) {
+    watch(builder, options, cwd);
+  }
+  return code;
+}
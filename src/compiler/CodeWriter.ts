@@ -0,0 +1,42 @@
+import { getWhitespace } from './helper';
+
+/** lines of generated code, indented by `indentSize` spaces per level */
+export class CodeWriter {
+  lines: string[] = [];
+  private _indent: number = 0;
+  private _indentSize: number;
+
+  constructor(indentSize: number) {
+    this._indentSize = indentSize;
+  }
+
+  /** whitespace of the current indentation */
+  get indentation(): string {
+    return getWhitespace(this._indent);
+  }
+
+  addLine(line: string): void {
+    this.lines.push(`${this.indentation}${line}`);
+  }
+
+  indent(): void {
+    this._indent += this._indentSize;
+  }
+
+  dedent(): void {
+    this._indent -= this._indentSize;
+  }
+
+  /** `if (conditions) { body }`, or only the body without conditions */
+  block(conditions: string[], body: () => void): void {
+    if (conditions.length === 0) {
+      body();
+      return;
+    }
+    this.addLine(`if (${conditions.join(' && ')}) {`);
+    this.indent();
+    body();
+    this.dedent();
+    this.addLine('}');
+  }
+}
@@ -0,0 +1,126 @@
+import type {
+  FieldNode,
+  FieldTypeNode,
+  IdentifierNode,
+  MessageNode,
+  OneofNode,
+} from '@/parser/ASTType';
+import { SymbolKind } from '@/resolver/SymbolTable';
+import type { CodeWriter } from './CodeWriter';
+import type { GenerateOptions } from './Generate';
+import {
+  getPropertyName,
+  getRawFieldName,
+  getZeroValue,
+  hasPresence,
+  isDecodedForm,
+  isMapField,
+  isMessageField,
+  type EmitContext,
+} from './helper';
+
+/** base of the emitters of the functions generated in the namespace of a message */
+export abstract class Emitter {
+  protected _context: EmitContext;
+  protected _writer: CodeWriter;
+  protected _options: GenerateOptions;
+
+  constructor(context: EmitContext, writer: CodeWriter) {
+    this._context = context;
+    this._writer = writer;
+    this._options = context.options;
+  }
+
+  protected _getFieldName(field: FieldNode): string {
+    return getPropertyName(getRawFieldName(field, this._options));
+  }
+
+  /** messages keep the fields unknown to the schema in `$unknown` */
+  protected _hasUnknownFields(): boolean {
+    return this._options.binary && isDecodedForm(this._options);
+  }
+
+  /** zero value of a scalar, or the first value of an enum as in proto2 */
+  protected _getZeroValue(
+    field: FieldNode,
+    node: FieldTypeNode | IdentifierNode,
+    type: string,
+  ): string {
+    const symbol = this._context.getSymbol(node);
+    if (symbol?.kind === SymbolKind.ENUM && symbol.node.fields.length > 0) {
+      return this._context.getEnumValue(node, type, symbol.node.fields[0].name.value);
+    }
+    return getZeroValue(type, field, this._context);
+  }
+
+  /** value of a field that is absent, `null` for fields with presence */
+  protected _getDefaultValue(field: FieldNode): string | null {
+    if (isMapField(field)) {
+      return this._options.mapType === 'Record'
+        ? '{}'
+        : `new ${this._context.getGlobalName('Map')}()`;
+    }
+    if (field.label?.value === 'repeated') {
+      return '[]';
+    }
+    if (hasPresence(field, this._context) || isMessageField(field, this._context)) {
+      return null;
+    }
+    return this._getZeroValue(field, field.fieldType, field.fieldType.name);
+  }
+
+  /** value of a field before any field is read, `null` leaves the property out */
+  protected _getInitialValue(field: FieldNode): string | null {
+    return this._getDefaultValue(field);
+  }
+
+  /** `const message = { ... }` with the properties of a message before any field is read */
+  protected _generateMessageDefaults(node: MessageNode, messageName: string): void {
+    const defaults: string[] = [];
+    for (let i = 0; i < node.fields.length; i += 1) {
+      const value = this._getInitialValue(node.fields[i]);
+      if (value !== null) {
+        defaults.push(`${this._getFieldName(node.fields[i])}: ${value}`);
+      }
+    }
+    if (this._options.oneofStyle === 'kind') {
+      for (let i = 0; i < node.oneofs.length; i += 1) {
+        if (node.oneofs[i].fields.length > 0) {
+          defaults.push(`${node.oneofs[i].name.value}: { oneofKind: undefined }`);
+        }
+      }
+    }
+    if (defaults.length === 0) {
+      this._writer.addLine(`const message = {} as ${messageName};`);
+      return;
+    }
+    this._writer.addLine('const message = {');
+    this._writer.indent();
+    for (let i = 0; i < defaults.length; i += 1) {
+      this._writer.addLine(`${defaults[i]},`);
+    }
+    this._writer.dedent();
+    this._writer.addLine(`} as ${messageName};`);
+  }
+
+  /** condition that the `union` or `kind` oneof of `target` holds `field` */
+  protected _getOneofCondition(
+    oneof: OneofNode,
+    field: FieldNode,
+    target: string = 'message',
+  ): string {
+    const value = `${target}.${oneof.name.value}`;
+    const name = field.name.value;
+    if (this._options.oneofStyle === 'union') {
+      return `${value}?.$case === '${name}'`;
+    }
+    // without `strictNullChecks` the discriminator does not rule out `{ oneofKind: undefined }`
+    return `${value}?.oneofKind === '${name}' && '${name}' in ${value}`;
+  }
+
+  /** value of a `union` or `kind` oneof holding `field` */
+  protected _getOneofValue(field: FieldNode, value: string): string {
+    const discriminator = this._options.oneofStyle === 'union' ? '$case' : 'oneofKind';
+    return `{ ${discriminator}: '${field.name.value}', ${field.name.value}: ${value} }`;
+  }
+}
@@ -1,130 +1,876 @@
-import { RESERVED_KEYWORDS } from './define';
-import { getWhitespace, transformFieldType } from './helper';
+import {
+  getDefaultValue,
+  getRawFieldName,
+  getFieldType,
+  getPropertyName,
+  getRelativeModulePath,
+  getSafeName,
+  getWellKnownType,
+  getWhitespace,
+  isDecodedForm,
+  isDeprecated,
+  isFlatOneof,
+  isOptionalField,
+  transformFieldType,
+  type EmitContext,
+} from './helper';
 import type {
+  Comments,
   EnumNode,
   ExtendNode,
+  FieldNode,
+  FieldTypeNode,
+  IdentifierNode,
   ImportNode,
   MessageNode,
+  OneofNode,
   ProtoFileNode,
+  RpcMethodNode,
+  ServiceNode,
 } from '@/parser/ASTType';
+import { isScalarType, parseIntegerLiteral } from '@/parser/helper';
+import { getDefaultFeatures, resolveFeatures, type Features } from '@/resolver/features';
+import type { ReferenceMap } from '@/resolver/Resolver';
+import { BinaryEmitter } from './binary';
+import { JsonEmitter } from './json';
+import { FactoryEmitter } from './factory';
+import { GuardEmitter } from './guard';
+import { CodeWriter } from './CodeWriter';
+import { BINARY_RUNTIME, GUARD_RUNTIME, JSON_RUNTIME } from './runtime';
+import { GLOBAL_NAMES } from './define';
+import { SymbolKind, type MessageSymbol, type TypeSymbol } from '@/resolver/SymbolTable';
 
 export interface GenerateOptions {
   indentSize: number;
   pathResolver: (path: string) => string;
+  /** container type used for `map<K, V>` fields */
+  mapType: 'Map' | 'Record';
+  /**
+   * how `oneof` members are generated:
+   * - `optional`: every member becomes an optional property
+   * - `union`: a `{ $case: 'foo'; foo: T } | ...` property named after the oneof
+   * - `kind`: a `{ oneofKind: 'foo'; foo: T } | ... | { oneofKind: undefined }` property
+   */
+  oneofStyle: 'optional' | 'union' | 'kind';
+  /** generate client/server interfaces and method descriptors for services */
+  services: boolean;
+  /**
+   * how the `package` declaration is reflected in the output:
+   * - `none`: the package is ignored
+   * - `namespace`: declarations are wrapped in `export namespace pkg.sub { ... }`
+   * - `flatten`: top level declarations are prefixed with the package, e.g. `pkg_sub_User`
+   */
+  packageMode: 'none' | 'namespace' | 'flatten';
+  /** TypeScript type of 64-bit integers, `Long` is imported from the `long` package */
+  long: 'number' | 'string' | 'bigint' | 'Long';
+  /**
+   * how `google.protobuf.*` well-known types are generated:
+   * - `message`: as references to the generated messages
+   * - `idiomatic`: as TypeScript types following their JSON mapping, e.g. `Timestamp` as `string | Date`
+   */
+  wellKnownTypes: 'message' | 'idiomatic';
+  /**
+   * type the canonical proto3 JSON form: camelCase (or `json_name`) property names, 64-bit
+   * integers and bytes as strings, enums as their value names and well-known types as `idiomatic`,
+   * every property is optional and oneof members are flat whatever the `oneofStyle`
+   */
+  jsonMapping: boolean;
+  /** generate code even when type references or semantic checks report errors */
+  emitOnError: boolean;
+  /**
+   * generate `encode(message): Uint8Array` and `decode(bytes): Message` functions in the namespace
+   * of every message, ignored with `jsonMapping` or `idiomatic` well-known types
+   */
+  binary: boolean;
+  /**
+   * generate `toJSON(message)` and `fromJSON(json)` functions for the canonical proto3 JSON form in
+   * the namespace of every message, ignored with `jsonMapping` or `idiomatic` well-known types
+   */
+  json: boolean;
+  /**
+   * which properties are optional (`?:`):
+   * - `strict`: fields that track presence, i.e. fields without `required` in proto2, fields
+   *   with `optional` in proto3, message fields and `EXPLICIT` fields in editions
+   * - `all-optional`: every property, e.g. for request builders
+   * - `partial-input`: as `strict`, with a deep partial `FooInput` type for every message
+   */
+  presence: 'strict' | 'all-optional' | 'partial-input';
+  /**
+   * also declare extension fields on the interface of the extended message, by declaration
+   * merging in the same file and by module augmentation for messages of other files
+   */
+  augmentExtensions: boolean;
+  /**
+   * generate an `isFoo(value: unknown): value is Foo` type guard next to every message and enum,
+   * fields with `(validate.rules)` or `(buf.validate.field)` options are also checked against them
+   */
+  guards: boolean;
+  /**
+   * generate a `createFoo(partial?: DeepPartial<Foo>): Foo` function next to every message that fills
+   * the fields missing from `partial` with their defaults, ignored with `jsonMapping` or `idiomatic`
+   * well-known types
+   */
+  factories: boolean;
+}
+
+export interface GenerateContext {
+  /** path of the proto file being generated, as used by the symbol table */
+  path: string;
+  references: ReferenceMap;
+  /** import referenced types by name, otherwise imports are emitted as side effect imports */
+  namedImports: boolean;
+  /** paths of the files imported with `import public` */
+  publicImports: string[];
 }
 
 const defaultOptions: GenerateOptions = {
   indentSize: 2,
   pathResolver: (path: string) => path,
+  mapType: 'Map',
+  oneofStyle: 'optional',
+  services: true,
+  packageMode: 'none',
+  long: 'number',
+  wellKnownTypes: 'message',
+  jsonMapping: false,
+  emitOnError: false,
+  binary: false,
+  json: false,
+  presence: 'strict',
+  augmentExtensions: false,
+  guards: false,
+  factories: false,
 };
 
 export class Generate {
-  private static readonly reservedKeywords = new Set(RESERVED_KEYWORDS);
-
-  private _indent: number = 0;
   private _options: GenerateOptions;
   private _ast: ProtoFileNode;
-  private _output: string[] = [];
+  private _context: GenerateContext | null;
+  private _writer: CodeWriter;
+  /** local names of the imported top level types, keyed by file and then by name */
+  private _imports: Map<string, Map<string, string>> = new Map();
+  /** imported names used at runtime by the type guards and factories */
+  private _valueImports: Set<string> = new Set();
+  /** top level names in use in the generated file */
+  private _names: Set<string>;
+  private _typeContext: EmitContext;
+  /** resolved features of the declaration being generated */
+  private _features: Features;
+  /** every `extend` of the file, including the nested ones */
+  private _extends: ExtendNode[] = [];
+  /** types of this file are referenced from outside the package namespace */
+  private _outsideNamespace: boolean = false;
+  /** names of the messages enclosing the declaration being generated */
+  private _messagePath: string[] = [];
+  /** globals hidden by a declaration of the file, referenced through `globalThis` */
+  private _shadowedGlobals: Set<string> = new Set();
+  private _binary: BinaryEmitter;
+  private _json: JsonEmitter;
+  private _guard: GuardEmitter;
+  private _factory: FactoryEmitter;
 
-  constructor(ast: ProtoFileNode, options: Partial<GenerateOptions>) {
+  constructor(
+    ast: ProtoFileNode,
+    options: Partial<GenerateOptions>,
+    context: GenerateContext | null = null,
+  ) {
     this._ast = ast;
     this._options = { ...defaultOptions, ...options };
+    this._context = context;
+    this._writer = new CodeWriter(this._options.indentSize);
+    this._features = resolveFeatures(getDefaultFeatures(ast), ast.options);
+    this._typeContext = {
+      options: this._options,
+      getTypeName: this._getTypeName,
+      getGlobalName: this._getGlobalName,
+      externalTypes: new Set(),
+      longName: 'Long',
+      getSymbol: (node) => this._context?.references.get(node),
+      getFeatures: () => this._features,
+      getFunctionName: (node, prefix) => this._getFunctionName(node, prefix),
+      getEnumValue: (node, type, name) => this._getEnumValue(node, type, name),
+      getQualifiedName: (name, node) => this._getQualifiedName(name, node),
+    };
+    this._binary = new BinaryEmitter(this._typeContext, this._writer);
+    this._json = new JsonEmitter(this._typeContext, this._writer);
+    this._guard = new GuardEmitter(this._typeContext, this._writer);
+    this._factory = new FactoryEmitter(this._typeContext, this._writer);
+    this._names = new Set(
+      [...ast.messages, ...ast.enums, ...ast.extends.flatMap((node) => node.fields)].map((node) =>
+        this._getTopLevelName(node.name.value, this._getPackageName()),
+      ),
+    );
+    for (let i = 0; i < ast.services.length; i += 1) {
+      const name = this._getTopLevelName(ast.services[i].name.value, this._getPackageName());
+      this._names.add(`${name}Client`).add(`${name}Server`).add(`${name}Methods`);
+    }
+    if (this._options.packageMode === 'namespace' && this._getPackageName()) {
+      // declarations inside the namespace shadow imports of the same name
+      this._names.add(this._getPackageName().split('.')[0]);
+    }
+    if (this._options.guards) {
+      for (const node of [...ast.messages, ...ast.enums]) {
+        this._names.add(`is${this._getTopLevelName(node.name.value, this._getPackageName())}`);
+      }
+    }
+    if (this._isFactories()) {
+      for (let i = 0; i < ast.messages.length; i += 1) {
+        const name = this._getTopLevelName(ast.messages[i].name.value, this._getPackageName());
+        this._names.add(`create${name}`);
+      }
+    }
+    const declared = new Set([...this._names, ...this._getDeclaredNames(ast)]);
+    this._shadowedGlobals = new Set(GLOBAL_NAMES.filter((name) => declared.has(name)));
+    if (this._options.long === 'Long') {
+      // the default import of the `long` package is aliased like the imports of other files
+      let longName = 'Long';
+      for (let i = 1; declared.has(longName); i += 1) {
+        longName = `Long$${i}`;
+      }
+      this._typeContext.longName = longName;
+      this._names.add(longName);
+    }
+  }
+
+  /** names of the messages, enums and extensions at any depth */
+  private _getDeclaredNames(node: ProtoFileNode | MessageNode): string[] {
+    const names = [...node.enums, ...node.extends.flatMap((item) => item.fields)].map((item) =>
+      getSafeName(item.name.value),
+    );
+    for (let i = 0; i < node.messages.length; i += 1) {
+      names.push(
+        getSafeName(node.messages[i].name.value),
+        ...this._getDeclaredNames(node.messages[i]),
+      );
+    }
+    return names;
+  }
+
+  /** name of a global in the generated code */
+  private _getGlobalName = (name: string): string =>
+    this._shadowedGlobals.has(name) ? `globalThis.${name}` : name;
+
+  /** local name of a top level type declared in another file, aliased when the name is taken */
+  private _addImport(file: string, name: string): string {
+    const names = this._imports.get(file) ?? new Map<string, string>();
+    this._imports.set(file, names);
+    let localName = names.get(name);
+    if (localName === undefined) {
+      localName = name;
+      // an import must not hide a global of the generated code
+      for (let i = 1; this._names.has(localName) || GLOBAL_NAMES.includes(localName); i += 1) {
+        localName = `${name}$${i}`;
+      }
+      this._names.add(localName);
+      names.set(name, localName);
+    }
+    return localName;
+  }
+
+  private _getPackageName(): string {
+    return this._ast.package?.name.value ?? '';
+  }
+
+  /** name of a top level declaration of the given package */
+  private _getTopLevelName(name: string, packageName: string): string {
+    if (this._options.packageMode === 'flatten' && packageName) {
+      return `${packageName.replace(/\./g, '_')}_${name}`;
+    }
+    return getSafeName(name);
+  }
+
+  private _getTypeName = (node: FieldTypeNode | IdentifierNode, name: string): string => {
+    const symbol = this._context?.references.get(node);
+    const fullName = symbol?.fullName ?? (name.startsWith('.') ? name.slice(1) : name);
+    if (this._options.wellKnownTypes === 'idiomatic' || this._options.jsonMapping) {
+      const wellKnownType = getWellKnownType(fullName, this._typeContext);
+      if (wellKnownType !== null) {
+        return wellKnownType;
+      }
+    }
+    if (symbol === undefined) {
+      return fullName;
+    }
+    if (this._options.jsonMapping && symbol.kind === SymbolKind.ENUM) {
+      const values = symbol.node.fields.map((field) => `'${field.name.value}'`);
+      return values.length > 0 ? values.join(' | ') : 'string';
+    }
+    const imported = this._context!.namedImports && symbol.file !== this._context!.path;
+    const path = this._getDeclarationPath(symbol, imported || this._outsideNamespace);
+    if (imported) {
+      path[0] = this._addImport(symbol.file, path[0]);
+    }
+    return path.join('.');
+  };
+
+  /**
+   * name of a function generated next to a message or enum, e.g. `isFoo` for the prefix `is`,
+   * `null` for types that cannot be resolved
+   */
+  private _getFunctionName(node: FieldTypeNode | IdentifierNode, prefix: string): string | null {
+    const symbol = this._context?.references.get(node);
+    if (symbol === undefined) {
+      return null;
+    }
+    const imported = this._context!.namedImports && symbol.file !== this._context!.path;
+    const path = this._getDeclarationPath(symbol, imported || this._outsideNamespace);
+    path[path.length - 1] = `${prefix}${path[path.length - 1]}`;
+    if (imported) {
+      path[0] = this._addImport(symbol.file, path[0]);
+      this._valueImports.add(path[0]);
+    }
+    return path.join('.');
+  }
+
+  /** TypeScript path of a type in the file declaring it, `qualified` adds the package namespace */
+  private _getDeclarationPath(symbol: TypeSymbol, qualified: boolean): string[] {
+    const path = symbol.path.map(getSafeName);
+    path[0] = this._getTopLevelName(symbol.path[0], symbol.packageName);
+    if (this._options.packageMode === 'namespace' && symbol.packageName && qualified) {
+      path.unshift(...symbol.packageName.split('.'));
+    }
+    return path;
+  }
+
+  private _getFieldName(field: FieldNode): string {
+    return getPropertyName(getRawFieldName(field, this._options));
+  }
+
+  private _getFieldType(field: FieldNode): string {
+    return getFieldType(field, this._typeContext);
+  }
+
+  private _transformFieldType(field: FieldNode): string {
+    return transformFieldType(field, isOptionalField(field, this._typeContext), this._typeContext);
+  }
+
+  private _generateExternalImports() {
+    if (this._typeContext.externalTypes.has('Long')) {
+      // decode and fromJSON create Long instances
+      const name = this._typeContext.longName;
+      return [`import ${this._hasRuntime() ? '' : 'type '}${name} from 'long';`];
+    }
+    return [];
+  }
+
+  /** lines of the TSDoc of leading and trailing proto comments */
+  private _getCommentLines(
+    comments: Comments,
+    deprecated: boolean,
+    defaultValue: string | null,
+  ): string[] {
+    const lines = [comments.leading, comments.trailing]
+      .filter((comment) => comment.trim() !== '')
+      .flatMap((comment) => comment.split('\n'))
+      .map((line) => line.replace(/^ /, '').trimEnd());
+    if (defaultValue !== null) {
+      lines.push(`@default ${defaultValue}`);
+    }
+    for (let i = 0; i < lines.length; i += 1) {
+      lines[i] = lines[i].replace(/\*\//g, '*\\/');
+    }
+    if (deprecated) {
+      lines.push('@deprecated');
+    }
+    return lines;
   }
 
-  private _addLine(line: string) {
-    this._output.push(`${getWhitespace(this._indent)}${line}`);
+  /** leading and trailing proto comments as TSDoc */
+  private _generateComments(
+    comments: Comments,
+    deprecated: boolean = false,
+    defaultValue: string | null = null,
+  ) {
+    this._writeComments(this._getCommentLines(comments, deprecated, defaultValue));
+  }
+
+  private _writeComments(lines: string[]) {
+    if (lines.length === 0) {
+      return;
+    }
+    if (lines.length === 1) {
+      this._writer.addLine(`/** ${lines[0]} */`);
+      return;
+    }
+    this._writer.addLine('/**');
+    for (let i = 0; i < lines.length; i += 1) {
+      this._writer.addLine(lines[i] ? ` * ${lines[i]}` : ' *');
+    }
+    this._writer.addLine(' */');
+  }
+
+  /** field comments, `[default = ...]` is kept as a `@default` tag */
+  private _generateFieldComments(field: FieldNode) {
+    this._generateComments(field.comments, isDeprecated(field.options), getDefaultValue(field));
   }
 
   private _generateImport(node: ImportNode) {
     const importPath = this._options.pathResolver(node.path.value);
-    this._addLine(`import '${importPath}';`);
+    this._writer.addLine(`import '${importPath}';`);
   }
 
-  private _generateEnum(node: EnumNode) {
-    let enumName = node.name.value;
-    if (Generate.reservedKeywords.has(enumName)) {
-      enumName = `${enumName}_`;
+  /** the `DeepPartial` helper of the `partial-input` types, it keeps leaf types such as `Long` */
+  private _generateDeepPartial(): string[] {
+    const indent = getWhitespace(this._options.indentSize);
+    const leafTypes = ['Date', 'Uint8Array'].map(this._getGlobalName);
+    if (this._typeContext.externalTypes.has('Long')) {
+      leafTypes.push(this._typeContext.longName);
     }
-    this._addLine(`export enum ${enumName} {`);
-    this._indent += this._options.indentSize;
+    return [
+      `type $DeepPartial<T> = T extends ${leafTypes.join(' | ')}`,
+      `${indent}? T`,
+      `${indent}: T extends ${this._getGlobalName('Map')}<infer K, infer V>`,
+      `${indent}${indent}? ${this._getGlobalName('Map')}<K, $DeepPartial<V>>`,
+      `${indent}${indent}: T extends (infer U)[]`,
+      `${indent}${indent}${indent}? $DeepPartial<U>[]`,
+      `${indent}${indent}${indent}: T extends object`,
+      `${indent}${indent}${indent}${indent}? { [K in keyof T]?: $DeepPartial<T[K]> }`,
+      `${indent}${indent}${indent}${indent}: T;`,
+    ];
+  }
+
+  private _generateNamedImports(): string[] {
+    const lines: string[] = [];
+    const files = new Set([...this._imports.keys(), ...this._context!.publicImports]);
+    for (const file of files) {
+      const importPath = this._options.pathResolver(
+        getRelativeModulePath(this._context!.path, file),
+      );
+      const entries = [...(this._imports.get(file) ?? new Map<string, string>()).entries()];
+      // the functions of imported messages and enum objects are used at runtime
+      const isValue = (localName: string) =>
+        this._isBinary() || this._isJson() || this._valueImports.has(localName);
+      const typeOnly = entries.every(([, localName]) => !isValue(localName));
+      const names = entries.map(([name, localName]) => {
+        const specifier = name === localName ? name : `${name} as ${localName}`;
+        return typeOnly || isValue(localName) ? specifier : `type ${specifier}`;
+      });
+      if (names.length > 0) {
+        const keyword = typeOnly ? 'import type' : 'import';
+        lines.push(`${keyword} { ${names.join(', ')} } from '${importPath}';`);
+      }
+      if (this._context!.publicImports.includes(file)) {
+        lines.push(`export * from '${importPath}';`);
+      }
+    }
+    return lines;
+  }
+
+  private _generateEnum(node: EnumNode, topLevel: boolean = false) {
+    const enumName = topLevel
+      ? this._getTopLevelName(node.name.value, this._getPackageName())
+      : getSafeName(node.name.value);
+    this._generateComments(node.comments, isDeprecated(node.options));
+    this._writer.addLine(`export enum ${enumName} {`);
+    this._writer.indent();
     for (let i = 0; i < node.fields.length; i += 1) {
       const field = node.fields[i];
-      this._addLine(`${field.name.value} = ${field.value.value},`);
+      this._generateComments(field.comments, isDeprecated(field.options));
+      // hex and octal literals are written as decimal numbers
+      this._writer.addLine(`${field.name.value} = ${parseIntegerLiteral(field.value.value)},`);
+    }
+    this._writer.dedent();
+    this._writer.addLine(`}`);
+    if (this._options.guards) {
+      this._writer.lines.push('');
+      this._guard.generateEnumGuard(node, enumName);
     }
-    this._indent -= this._options.indentSize;
-    this._addLine(`}`);
   }
 
-  private _generateExtend(node: ExtendNode) {
-    let extendName = node.name.value;
-    if (Generate.reservedKeywords.has(extendName)) {
-      extendName = `${extendName}_`;
-    }
-    this._addLine(`export interface ${extendName} {`);
-    this._indent += this._options.indentSize;
+  /** a descriptor constant per extension field, named after the field */
+  private _generateExtend(node: ExtendNode, topLevel: boolean = false) {
+    this._extends.push(node);
+    const extendee = this._getQualifiedName(node.name.value, node.name);
     for (let i = 0; i < node.fields.length; i += 1) {
       const field = node.fields[i];
-      this._addLine(`${field.name.value}${transformFieldType(field)};`);
+      const name = topLevel
+        ? this._getTopLevelName(field.name.value, this._getPackageName())
+        : getSafeName(field.name.value);
+      const type = isScalarType(field.fieldType.name)
+        ? field.fieldType.name
+        : this._getQualifiedName(field.fieldType.name, field.fieldType);
+      if (i > 0) {
+        this._writer.lines.push('');
+      }
+      this._generateFieldComments(field);
+      this._writer.addLine(`export const ${name} = {`);
+      this._writer.indent();
+      this._writer.addLine(`extendee: '${extendee}',`);
+      this._writer.addLine(`fieldNumber: ${parseIntegerLiteral(field.fieldNumber.value)},`);
+      this._writer.addLine(`type: '${type}',`);
+      this._writer.dedent();
+      this._writer.addLine('} as const;');
     }
-    this._indent -= this._options.indentSize;
-    this._addLine(`}`);
   }
 
-  private _generateMessage(node: MessageNode) {
-    let messageName = node.name.value;
-    if (Generate.reservedKeywords.has(messageName)) {
-      messageName = `${messageName}_`;
+  /** extension fields of the extended messages, grouped by message */
+  private _getExtensionFields(): Map<MessageSymbol, FieldNode[]> {
+    const targets = new Map<MessageSymbol, FieldNode[]>();
+    for (let i = 0; i < this._extends.length; i += 1) {
+      const node = this._extends[i];
+      const symbol = this._context?.references.get(node.name);
+      // extendees that cannot be resolved or are not messages are reported by the validator
+      if (symbol?.kind !== SymbolKind.MESSAGE) {
+        continue;
+      }
+      targets.set(symbol, [...(targets.get(symbol) ?? []), ...node.fields]);
     }
-    this._addLine(`export namespace ${messageName} {`);
-    this._indent += this._options.indentSize;
+    return targets;
+  }
+
+  /** declare the extension fields as optional properties of the extended interfaces */
+  private _generateAugmentations() {
+    this._outsideNamespace = true;
+    for (const [symbol, fields] of this._getExtensionFields()) {
+      if (this._writer.lines[this._writer.lines.length - 1] !== '') {
+        this._writer.lines.push('');
+      }
+      const external = symbol.file !== this._context!.path;
+      if (external) {
+        const modulePath = this._options.pathResolver(
+          getRelativeModulePath(this._context!.path, symbol.file),
+        );
+        this._writer.addLine(`declare module '${modulePath}' {`);
+        this._writer.indent();
+      }
+      const path = this._getDeclarationPath(symbol, true);
+      if (path.length > 1) {
+        this._writer.addLine(`export namespace ${path.slice(0, -1).join('.')} {`);
+        this._writer.indent();
+      }
+      this._writer.addLine(`export interface ${path[path.length - 1]} {`);
+      this._writer.indent();
+      for (let i = 0; i < fields.length; i += 1) {
+        const field = fields[i];
+        this._generateFieldComments(field);
+        this._writer.addLine(`${this._getFieldName(field)}?: ${this._getFieldType(field)};`);
+      }
+      this._writer.dedent();
+      this._writer.addLine('}');
+      if (path.length > 1) {
+        this._writer.dedent();
+        this._writer.addLine('}');
+      }
+      if (external) {
+        this._writer.dedent();
+        this._writer.addLine('}');
+      }
+      this._writer.lines.push('');
+    }
+    this._outsideNamespace = false;
+  }
+
+  private _generateOneof(node: OneofNode) {
+    const style = this._options.oneofStyle;
+    if (node.fields.length === 0) {
+      return;
+    }
+    if (isFlatOneof(this._options)) {
+      for (let i = 0; i < node.fields.length; i += 1) {
+        const field = node.fields[i];
+        this._generateFieldComments(field);
+        this._writer.addLine(`${this._getFieldName(field)}?: ${this._getFieldType(field)};`);
+      }
+      return;
+    }
+
+    const discriminator = style === 'union' ? '$case' : 'oneofKind';
+    this._generateComments(node.comments);
+    const optional = style === 'union' || this._options.presence === 'all-optional';
+    this._writer.addLine(`${node.name.value}${optional ? '?' : ''}:`);
+    this._writer.indent();
+    for (let i = 0; i < node.fields.length; i += 1) {
+      const field = node.fields[i];
+      const name = getRawFieldName(field, this._options);
+      const type = this._getFieldType(field);
+      const end = style === 'union' && i === node.fields.length - 1 ? ';' : '';
+      const comments = this._getCommentLines(
+        field.comments,
+        isDeprecated(field.options),
+        getDefaultValue(field),
+      );
+      if (comments.length === 0) {
+        this._writer.addLine(
+          `| { ${discriminator}: '${name}'; ${getPropertyName(name)}: ${type} }${end}`,
+        );
+        continue;
+      }
+      // the comments of a member document its property, so that editors show them on access
+      this._writer.addLine('| {');
+      this._writer.indent();
+      this._writer.addLine(`${discriminator}: '${name}';`);
+      this._writeComments(comments);
+      this._writer.addLine(`${getPropertyName(name)}: ${type};`);
+      this._writer.dedent();
+      this._writer.addLine(`}${end}`);
+    }
+    if (style === 'kind') {
+      this._writer.addLine(`| { ${discriminator}: undefined };`);
+    }
+    this._writer.dedent();
+  }
+
+  private _generateMessage(node: MessageNode, topLevel: boolean = false) {
+    const messageName = topLevel
+      ? this._getTopLevelName(node.name.value, this._getPackageName())
+      : getSafeName(node.name.value);
+    const parentFeatures = this._features;
+    this._features = resolveFeatures(parentFeatures, node.options);
+    this._messagePath.push(node.name.value);
+    this._writer.addLine(`export namespace ${messageName} {`);
+    this._writer.indent();
     for (let i = 0; i < node.enums.length; i += 1) {
       this._generateEnum(node.enums[i]);
-      this._output.push('');
+      this._writer.lines.push('');
     }
     for (let i = 0; i < node.messages.length; i += 1) {
       this._generateMessage(node.messages[i]);
-      this._output.push('');
+      this._writer.lines.push('');
     }
     for (let i = 0; i < node.extends.length; i += 1) {
       this._generateExtend(node.extends[i]);
-      this._output.push('');
+      this._writer.lines.push('');
+    }
+    if (this._isBinary()) {
+      this._binary.generateEncode(node, messageName);
+      this._writer.lines.push('');
+      this._binary.generateDecode(node, messageName);
+      this._writer.lines.push('');
     }
-    this._indent -= this._options.indentSize;
-    this._addLine('}\n');
+    if (this._isJson()) {
+      const fullName = this._getQualifiedName(this._messagePath.join('.'));
+      this._json.generateToJSON(node, messageName, fullName);
+      this._writer.lines.push('');
+      this._json.generateFromJSON(node, messageName, fullName);
+      this._writer.lines.push('');
+    }
+    this._writer.dedent();
+    this._writer.addLine('}\n');
 
-    this._addLine(`export interface ${messageName} {`);
-    this._indent += this._options.indentSize;
+    this._generateComments(node.comments, isDeprecated(node.options));
+    this._writer.addLine(`export interface ${messageName} {`);
+    this._writer.indent();
     for (let i = 0; i < node.fields.length; i += 1) {
       const field = node.fields[i];
-      this._addLine(`${field.name.value}${transformFieldType(field)};`);
+      this._generateFieldComments(field);
+      this._writer.addLine(`${this._getFieldName(field)}${this._transformFieldType(field)};`);
+    }
+    for (let i = 0; i < node.oneofs.length; i += 1) {
+      this._generateOneof(node.oneofs[i]);
+    }
+    if (this._isBinary()) {
+      this._writer.addLine(
+        '/** fields unknown to this schema, kept by `decode` and written back by `encode` */',
+      );
+      this._writer.addLine(`$unknown?: ${this._getGlobalName('Uint8Array')};`);
+    }
+    this._writer.dedent();
+    this._writer.lines.push(`${this._writer.indentation}}`);
+    if (this._options.presence === 'partial-input') {
+      this._writer.addLine(`export type ${messageName}Input = $DeepPartial<${messageName}>;`);
+    }
+    if (this._isFactories()) {
+      this._writer.lines.push('');
+      this._factory.generateFactory(node, messageName);
+    }
+    if (this._options.guards) {
+      this._writer.lines.push('');
+      this._guard.generateMessageGuard(node, messageName);
+    }
+    this._messagePath.pop();
+    this._features = parentFeatures;
+  }
+
+  private _isBinary(): boolean {
+    return this._options.binary && isDecodedForm(this._options);
+  }
+
+  private _isJson(): boolean {
+    return this._options.json && isDecodedForm(this._options);
+  }
+
+  private _isFactories(): boolean {
+    return this._options.factories && isDecodedForm(this._options);
+  }
+
+  /** functions are generated next to the types */
+  private _hasRuntime(): boolean {
+    return this._isBinary() || this._isJson() || this._options.guards || this._isFactories();
+  }
+
+  /** helper code copied into the output, indented with `indentSize` */
+  private _generateRuntime(source: string): string[] {
+    let code = source.trim();
+    for (const name of this._shadowedGlobals) {
+      code = code.replace(new RegExp(`(?<![.$\\w])${name}\\b`, 'g'), `globalThis.${name}`);
     }
-    this._indent -= this._options.indentSize;
-    this._output.push(`${getWhitespace(this._indent)}}`);
+    return code.split('\n').map((line) => {
+      const indent = line.length - line.trimStart().length;
+      return `${getWhitespace((indent / 2) * this._options.indentSize)}${line.trimStart()}`;
+    });
+  }
+
+  /** `Type.VALUE`, the enum object is then used at runtime */
+  private _getEnumValue(node: FieldTypeNode | IdentifierNode, type: string, name: string): string {
+    const typeName = this._getTypeName(node, type);
+    this._valueImports.add(typeName.split('.')[0]);
+    return `${typeName}.${name}`;
+  }
+
+  /** fully qualified proto name of a declaration or reference in this file */
+  private _getQualifiedName(name: string, node?: FieldTypeNode | IdentifierNode): string {
+    const symbol = node && this._context?.references.get(node);
+    if (symbol) {
+      return symbol.fullName;
+    }
+    if (name.startsWith('.')) {
+      return name.slice(1);
+    }
+    const packageName = this._ast.package?.name.value;
+    return packageName ? `${packageName}.${name}` : name;
+  }
+
+  private _generateServiceInterface(node: ServiceNode, suffix: string, handler: boolean) {
+    const serviceName = this._getTopLevelName(node.name.value, this._getPackageName());
+    this._generateComments(node.comments, isDeprecated(node.options));
+    this._writer.addLine(`export interface ${serviceName}${suffix} {`);
+    this._writer.indent();
+    for (let i = 0; i < node.methods.length; i += 1) {
+      const method = node.methods[i];
+      const iterable = this._getGlobalName('AsyncIterable');
+      const promise = this._getGlobalName('Promise');
+      let input = this._getTypeName(method.inputType, method.inputType.value);
+      if (method.clientStreaming) {
+        input = `${iterable}<${input}>`;
+      }
+      const output = this._getTypeName(method.outputType, method.outputType.value);
+      let result = handler ? `${output} | ${promise}<${output}>` : `${promise}<${output}>`;
+      if (method.serverStreaming) {
+        result = `${iterable}<${output}>`;
+      }
+      this._generateComments(method.comments, isDeprecated(method.options));
+      this._writer.addLine(`${method.name.value}: (request: ${input}) => ${result};`);
+    }
+    this._writer.dedent();
+    this._writer.addLine('}');
+  }
+
+  private _generateMethodDescriptor(serviceName: string, node: RpcMethodNode) {
+    this._writer.addLine(`${node.name.value}: {`);
+    this._writer.indent();
+    this._writer.addLine(`path: '/${serviceName}/${node.name.value}',`);
+    this._writer.addLine(
+      `requestType: '${this._getQualifiedName(node.inputType.value, node.inputType)}',`,
+    );
+    this._writer.addLine(
+      `responseType: '${this._getQualifiedName(node.outputType.value, node.outputType)}',`,
+    );
+    this._writer.addLine(`requestStream: ${node.clientStreaming},`);
+    this._writer.addLine(`responseStream: ${node.serverStreaming},`);
+    this._writer.dedent();
+    this._writer.addLine('},');
+  }
+
+  private _generateService(node: ServiceNode) {
+    this._generateServiceInterface(node, 'Client', false);
+    this._writer.lines.push('');
+    this._generateServiceInterface(node, 'Server', true);
+    this._writer.lines.push('');
+
+    const serviceName = this._getQualifiedName(node.name.value);
+    const constantName = this._getTopLevelName(node.name.value, this._getPackageName());
+    this._writer.addLine(`export const ${constantName}Methods = {`);
+    this._writer.indent();
+    for (let i = 0; i < node.methods.length; i += 1) {
+      this._generateMethodDescriptor(serviceName, node.methods[i]);
+    }
+    this._writer.dedent();
+    this._writer.addLine('} as const;');
   }
 
   generate(): string {
-    this._output.push('/** generated by convert_proto2ts, do not edit */\n');
+    this._writer.lines.push('/** generated by convert_proto2ts, do not edit */\n');
 
-    for (let i = 0; i < this._ast.imports.length; i += 1) {
-      this._generateImport(this._ast.imports[i]);
+    // named imports are only known once every reference has been generated
+    const importIndex = this._writer.lines.length;
+    if (!this._context?.namedImports) {
+      for (let i = 0; i < this._ast.imports.length; i += 1) {
+        this._generateImport(this._ast.imports[i]);
+      }
+    }
+    this._writer.lines.push('');
+
+    const namespace = this._options.packageMode === 'namespace' ? this._getPackageName() : '';
+    if (namespace) {
+      this._writer.addLine(`export namespace ${namespace} {`);
+      this._writer.indent();
     }
-    this._output.push('');
 
     for (let i = 0; i < this._ast.enums.length; i += 1) {
-      this._generateEnum(this._ast.enums[i]);
-      this._output.push('');
+      this._generateEnum(this._ast.enums[i], true);
+      this._writer.lines.push('');
     }
 
     for (let i = 0; i < this._ast.messages.length; i += 1) {
-      this._generateMessage(this._ast.messages[i]);
-      this._output.push('');
+      this._generateMessage(this._ast.messages[i], true);
+      this._writer.lines.push('');
     }
 
     for (let i = 0; i < this._ast.extends.length; i += 1) {
-      this._generateExtend(this._ast.extends[i]);
-      this._output.push('');
+      this._generateExtend(this._ast.extends[i], true);
+      this._writer.lines.push('');
+    }
+
+    if (this._options.services) {
+      for (let i = 0; i < this._ast.services.length; i += 1) {
+        this._generateService(this._ast.services[i]);
+        this._writer.lines.push('');
+      }
+    }
+
+    if (namespace) {
+      if (this._writer.lines[this._writer.lines.length - 1] === '') {
+        this._writer.lines.pop();
+      }
+      this._writer.dedent();
+      this._writer.addLine('}');
+    }
+
+    if (this._options.augmentExtensions) {
+      this._generateAugmentations();
+    }
+
+    const imports = this._generateExternalImports();
+    if (this._context?.namedImports) {
+      imports.push(...this._generateNamedImports());
+    }
+    const sections = [imports];
+    if (
+      (this._options.presence === 'partial-input' || this._isFactories()) &&
+      this._ast.messages.length > 0
+    ) {
+      sections.push(this._generateDeepPartial());
+    }
+    if (this._isBinary() && this._ast.messages.length > 0) {
+      sections.push(this._generateRuntime(BINARY_RUNTIME));
+    }
+    if (this._options.guards && this._ast.messages.length > 0) {
+      sections.push(this._generateRuntime(GUARD_RUNTIME));
+    }
+    if (this._guard.patterns.size > 0) {
+      sections.push(
+        [...this._guard.patterns].map(([literal, name]) => `const ${name} = ${literal};`),
+      );
+    }
+    if (this._json.helpers.size > 0) {
+      const helpers = Object.keys(JSON_RUNTIME).filter((name) => this._json.helpers.has(name));
+      sections.push(...helpers.map((name) => this._generateRuntime(JSON_RUNTIME[name])));
     }
+    const header = sections
+      .filter((section) => section.length > 0)
+      .flatMap((section, i) => (i === 0 ? section : ['', ...section]));
+    this._writer.lines.splice(importIndex, 0, ...header);
 
-    return this._output.join('\n');
+    return this._writer.lines.join('\n');
   }
 }
@@ -0,0 +1,172 @@
+import { DiagnosticCode } from '@/diagnostic/define';
+import type { ImportNode, Position, ProtoFileNode } from '@/parser/ASTType';
+import { parseProto, type CompilerError } from './compile';
+import { joinPath, normalizePath } from './helper';
+import { WELL_KNOWN_TYPES } from './wellKnownTypes';
+
+export interface ProjectOptions {
+  /** in-memory proto sources keyed by path */
+  files: Record<string, string>;
+  /** reads a proto file from any other source, returns `null` when the file does not exist */
+  loader: ((path: string) => string | null) | null;
+  /** directories that imports are resolved against, in order */
+  includePaths: string[];
+}
+
+export interface ProjectFile {
+  /** path of the file relative to the include path it was found in */
+  path: string;
+  ast: ProtoFileNode;
+  /** paths of the files imported directly */
+  imports: string[];
+  /** paths of the files imported with `import public` */
+  publicImports: string[];
+}
+
+const EMPTY_POSITION: Position = {
+  line: 0,
+  column: 0,
+  start: 0,
+  end: 0,
+};
+
+export class Project {
+  private _options: ProjectOptions;
+  private _files: Map<string, ProjectFile> = new Map();
+  private _errors: CompilerError[] = [];
+  /** files currently being loaded, used to detect import cycles */
+  private _stack: string[] = [];
+
+  constructor(options: Partial<ProjectOptions>) {
+    const files: Record<string, string> = {};
+    const keys = Object.keys(options.files ?? {});
+    for (let i = 0; i < keys.length; i += 1) {
+      files[normalizePath(keys[i])] = options.files![keys[i]];
+    }
+    this._options = {
+      files,
+      loader: options.loader ?? null,
+      includePaths: options.includePaths?.length ? options.includePaths : [''],
+    };
+  }
+
+  get files(): ProjectFile[] {
+    return [...this._files.values()];
+  }
+
+  get errors(): CompilerError[] {
+    return this._errors;
+  }
+
+  getFile(path: string): ProjectFile | null {
+    return this._files.get(normalizePath(path)) ?? null;
+  }
+
+  /** files whose top level declarations are visible in `path`, following `import public` */
+  getVisibleFiles(path: string): ProjectFile[] {
+    const visible = new Map<string, ProjectFile>();
+    const visit = (filePath: string) => {
+      const file = this._files.get(filePath);
+      if (!file || visible.has(filePath)) {
+        return;
+      }
+      visible.set(filePath, file);
+      for (let i = 0; i < file.publicImports.length; i += 1) {
+        visit(file.publicImports[i]);
+      }
+    };
+    const file = this._files.get(normalizePath(path));
+    if (file) {
+      for (let i = 0; i < file.imports.length; i += 1) {
+        visit(file.imports[i]);
+      }
+    }
+    return [...visible.values()];
+  }
+
+  private _addError(file: string, code: DiagnosticCode, message: string, position: Position) {
+    this._errors.push({ code, severity: 'error', message, position, file });
+  }
+
+  private _read(path: string): string | null {
+    const { files, loader, includePaths } = this._options;
+    for (let i = 0; i < includePaths.length; i += 1) {
+      const fullPath = joinPath(includePaths[i], path);
+      if (Object.hasOwn(files, fullPath)) {
+        return files[fullPath];
+      }
+      const source = loader?.(fullPath) ?? null;
+      if (source !== null) {
+        return source;
+      }
+    }
+    return WELL_KNOWN_TYPES[path] ?? null;
+  }
+
+  private _loadImport(file: string, node: ImportNode): string {
+    const path = normalizePath(node.path.value);
+    const cycleStart = this._stack.indexOf(path);
+    if (cycleStart >= 0) {
+      const cycle = [...this._stack.slice(cycleStart), path].join(' -> ');
+      this._addError(
+        file,
+        DiagnosticCode.IMPORT_CYCLE,
+        `Import cycle: ${cycle}`,
+        node.path.position,
+      );
+    } else if (!this._load(path)) {
+      this._addError(
+        file,
+        DiagnosticCode.FILE_NOT_FOUND,
+        `File not found: ${node.path.value}`,
+        node.path.position,
+      );
+    }
+    return path;
+  }
+
+  private _load(path: string): boolean {
+    if (this._files.has(path)) {
+      return true;
+    }
+    const source = this._read(path);
+    if (source === null) {
+      return false;
+    }
+
+    const { ast, errors } = parseProto(source);
+    for (let i = 0; i < errors.length; i += 1) {
+      this._errors.push({ ...errors[i], file: path });
+    }
+    if (ast === null) {
+      return true;
+    }
+
+    const file: ProjectFile = { path, ast, imports: [], publicImports: [] };
+    this._files.set(path, file);
+    this._stack.push(path);
+    for (let i = 0; i < ast.imports.length; i += 1) {
+      const node = ast.imports[i];
+      const importPath = this._loadImport(path, node);
+      file.imports.push(importPath);
+      if (node.publicKeyword === 'public') {
+        file.publicImports.push(importPath);
+      }
+    }
+    this._stack.pop();
+    return true;
+  }
+
+  /** load an entry file and everything it imports */
+  load(path: string): void {
+    const normalizedPath = normalizePath(path);
+    if (!this._load(normalizedPath)) {
+      this._addError(
+        normalizedPath,
+        DiagnosticCode.FILE_NOT_FOUND,
+        `File not found: ${path}`,
+        EMPTY_POSITION,
+      );
+    }
+  }
+}
@@ -0,0 +1,543 @@
+import type {
+  FieldNode,
+  FieldTypeNode,
+  IdentifierNode,
+  MessageNode,
+  OneofNode,
+} from '@/parser/ASTType';
+import { getOptionValue, parseIntegerLiteral } from '@/parser/helper';
+import { resolveFieldFeatures } from '@/resolver/features';
+import { SymbolKind } from '@/resolver/SymbolTable';
+import { Emitter } from './Emitter';
+import {
+  getFieldsByNumber,
+  getLongRepresentation,
+  getMapValueType,
+  getZeroValue,
+  hasStringLongKeys,
+  isImplicitField,
+  isLongType,
+  isMapField,
+  isMessageField,
+  isMessageType,
+  isOptionalField,
+  isUnsignedLong,
+  type TypeContext,
+} from './helper';
+
+/** wire types of the protobuf binary format */
+export const WireType = {
+  VARINT: 0,
+  FIXED64: 1,
+  LENGTH_DELIMITED: 2,
+  START_GROUP: 3,
+  END_GROUP: 4,
+  FIXED32: 5,
+} as const;
+
+const SCALAR_WIRE_TYPES: Record<string, number> = {
+  int32: WireType.VARINT,
+  int64: WireType.VARINT,
+  uint32: WireType.VARINT,
+  uint64: WireType.VARINT,
+  sint32: WireType.VARINT,
+  sint64: WireType.VARINT,
+  bool: WireType.VARINT,
+  fixed64: WireType.FIXED64,
+  sfixed64: WireType.FIXED64,
+  double: WireType.FIXED64,
+  string: WireType.LENGTH_DELIMITED,
+  bytes: WireType.LENGTH_DELIMITED,
+  fixed32: WireType.FIXED32,
+  sfixed32: WireType.FIXED32,
+  float: WireType.FIXED32,
+};
+
+/** wire type of a scalar type, any other type is an enum and encoded as a varint */
+export function getWireType(type: string): number {
+  return SCALAR_WIRE_TYPES[type] ?? WireType.VARINT;
+}
+
+/** repeated scalars and enums may be packed, strings and bytes never are */
+export function isPackable(type: string): boolean {
+  return getWireType(type) !== WireType.LENGTH_DELIMITED;
+}
+
+/** method of `BinaryWriter` and `BinaryReader` for a scalar or enum type */
+export function getCodecMethod(type: string): string {
+  return Object.hasOwn(SCALAR_WIRE_TYPES, type) ? type : 'int32';
+}
+
+/** condition that `value` is not the zero value of its scalar or enum type */
+export function getNonZeroCondition(
+  type: string,
+  field: FieldNode,
+  context: TypeContext,
+  value: string,
+): string {
+  if (type === 'bytes') {
+    return `${value}.length > 0`;
+  }
+  if (isLongType(type) && getLongRepresentation(field, context.options) === 'Long') {
+    return `!${value}.isZero()`;
+  }
+  return `${value} !== ${getZeroValue(type, field, context)}`;
+}
+
+/** value of a scalar or enum type read by `reader`, 64-bit integers are read as `bigint` */
+export function getReadExpression(
+  type: string,
+  field: FieldNode,
+  context: TypeContext,
+  reader: string,
+): string {
+  const read = `${reader}.${getCodecMethod(type)}()`;
+  if (!isLongType(type)) {
+    return read;
+  }
+  switch (getLongRepresentation(field, context.options)) {
+    case 'number':
+      return `${context.getGlobalName('Number')}(${read})`;
+    case 'string':
+      return `${read}.toString()`;
+    case 'Long':
+      return `${context.longName}.fromString(${read}.toString(), ${isUnsignedLong(type)})`;
+    default:
+      return read;
+  }
+}
+
+/** key of a `Record` map for a key read as `value`, bool and 64-bit keys are strings */
+export function getRecordKey(
+  type: string,
+  field: FieldNode,
+  context: TypeContext,
+  value: string,
+): string {
+  const string = context.getGlobalName('String');
+  if (type === 'bool') {
+    return `${string}(${value})`;
+  }
+  if (isLongType(type)) {
+    const representation = getLongRepresentation(field, context.options);
+    return representation === 'number' || representation === 'string'
+      ? value
+      : `${string}(${value})`;
+  }
+  return value;
+}
+
+/** value to write for the string `key` of a `Record` map */
+export function getRecordKeyValue(type: string, context: TypeContext, key: string): string {
+  if (type === 'bool') {
+    return `${key} === 'true'`;
+  }
+  // 64-bit values are written from their decimal strings
+  if (type === 'string' || isLongType(type)) {
+    return key;
+  }
+  return `${context.getGlobalName('Number')}(${key})`;
+}
+
+/** `encode` and `decode` functions of the protobuf binary format */
+export class BinaryEmitter extends Emitter {
+  /** message fields written between start and end group tags instead of with a length */
+  private _isDelimited(field: FieldNode): boolean {
+    return (
+      field.group ||
+      resolveFieldFeatures(this._context.getFeatures(), field).messageEncoding === 'DELIMITED'
+    );
+  }
+
+  /** `[packed = ...]` overrides the repeated field encoding feature */
+  private _isPacked(field: FieldNode): boolean {
+    const packed = getOptionValue(field.options, 'packed');
+    if (typeof packed === 'boolean') {
+      return packed;
+    }
+    return (
+      resolveFieldFeatures(this._context.getFeatures(), field).repeatedFieldEncoding === 'PACKED'
+    );
+  }
+
+  private _getWireType(node: FieldTypeNode | IdentifierNode, type: string, delimited: boolean) {
+    if (!isMessageType(node, type, this._context)) {
+      return getWireType(type);
+    }
+    return delimited ? WireType.START_GROUP : WireType.LENGTH_DELIMITED;
+  }
+
+  /** statement writing a tag and `value` of the type `type` */
+  private _getWriteStatement(
+    writer: string,
+    fieldNumber: number,
+    node: FieldTypeNode | IdentifierNode,
+    type: string,
+    value: string,
+    delimited: boolean = false,
+  ): string {
+    const tag = `${writer}.tag(${fieldNumber}, ${this._getWireType(node, type, delimited)})`;
+    if (!isMessageType(node, type, this._context)) {
+      return `${tag}.${getCodecMethod(type)}(${value});`;
+    }
+    const encoded = `${this._context.getTypeName(node, type)}.encode(${value})`;
+    if (delimited) {
+      return `${tag}.raw(${encoded}).tag(${fieldNumber}, ${WireType.END_GROUP});`;
+    }
+    return `${tag}.bytes(${encoded});`;
+  }
+
+  /** expression reading a value of the type `type` whose tag has been read */
+  private _getReadExpression(
+    reader: string,
+    field: FieldNode,
+    node: FieldTypeNode | IdentifierNode,
+    type: string,
+    delimited: boolean = false,
+  ): string {
+    if (!isMessageType(node, type, this._context)) {
+      return getReadExpression(type, field, this._context, reader);
+    }
+    const content = delimited
+      ? `${reader}.group(${parseIntegerLiteral(field.fieldNumber.value)})`
+      : `${reader}.bytes()`;
+    return `${this._context.getTypeName(node, type)}.decode(${content})`;
+  }
+
+  /** declared values of a closed enum, other values read for it are kept as unknown fields */
+  private _getClosedEnumValues(node: FieldTypeNode | IdentifierNode): number[] | null {
+    const symbol = this._context.getSymbol(node);
+    if (symbol?.kind !== SymbolKind.ENUM || !symbol.closed) {
+      return null;
+    }
+    return [...new Set(symbol.node.fields.map((field) => parseIntegerLiteral(field.value.value)))];
+  }
+
+  /** `body` when `value` is one of `values`, otherwise `unknown` is written */
+  private _generateEnumCheck(values: number[], value: string, unknown: string, body: () => void) {
+    this._writer.addLine(`if ([${values.join(', ')}].includes(${value})) {`);
+    this._writer.indent();
+    body();
+    this._writer.dedent();
+    this._writer.addLine('} else {');
+    this._writer.indent();
+    this._writer.addLine(unknown);
+    this._writer.dedent();
+    this._writer.addLine('}');
+  }
+
+  private _generateMapEncode(field: FieldNode, fieldNumber: number, value: string) {
+    const [keyType, valueType] = field.fieldType.arguments;
+    const record = this._options.mapType === 'Record';
+    const entries = record ? `${this._context.getGlobalName('Object')}.entries(${value})` : value;
+    this._writer.addLine(`for (const [key, item] of ${entries}) {`);
+    this._writer.indent();
+    this._writer.addLine('const entry = new $BinaryWriter();');
+    const key = record ? getRecordKeyValue(keyType.value, this._context, 'key') : 'key';
+    this._writer.addLine(this._getWriteStatement('entry', 1, keyType, keyType.value, key));
+    this._writer.addLine(this._getWriteStatement('entry', 2, valueType, valueType.value, 'item'));
+    this._writer.addLine(
+      `writer.tag(${fieldNumber}, ${WireType.LENGTH_DELIMITED}).bytes(entry.finish());`,
+    );
+    this._writer.dedent();
+    this._writer.addLine('}');
+  }
+
+  private _generateFieldEncode(field: FieldNode, oneof: OneofNode | null) {
+    const fieldNumber = parseIntegerLiteral(field.fieldNumber.value);
+    const type = field.fieldType.name;
+    const name = field.name.value;
+    const delimited = this._isDelimited(field);
+    if (oneof !== null && this._options.oneofStyle !== 'optional') {
+      const value = `message.${oneof.name.value}.${name}`;
+      this._writer.block([this._getOneofCondition(oneof, field)], () => {
+        this._writer.addLine(
+          this._getWriteStatement('writer', fieldNumber, field.fieldType, type, value, delimited),
+        );
+      });
+      return;
+    }
+
+    const value = `message.${name}`;
+    const conditions =
+      isOptionalField(field, this._context) || oneof !== null ? [`${value} !== undefined`] : [];
+    if (isMapField(field)) {
+      this._writer.block(conditions, () => this._generateMapEncode(field, fieldNumber, value));
+      return;
+    }
+    if (field.label?.value !== 'repeated') {
+      if (oneof === null && isImplicitField(field, this._context)) {
+        conditions.push(getNonZeroCondition(type, field, this._context, value));
+      }
+      this._writer.block(conditions, () => {
+        this._writer.addLine(
+          this._getWriteStatement('writer', fieldNumber, field.fieldType, type, value, delimited),
+        );
+      });
+      return;
+    }
+    if (!isMessageField(field, this._context) && isPackable(type) && this._isPacked(field)) {
+      conditions.push(`${value}.length > 0`);
+      this._writer.block(conditions, () => {
+        this._writer.addLine('const packed = new $BinaryWriter();');
+        this._writer.addLine(`for (const item of ${value}) {`);
+        this._writer.indent();
+        this._writer.addLine(`packed.${getCodecMethod(type)}(item);`);
+        this._writer.dedent();
+        this._writer.addLine('}');
+        this._writer.addLine(
+          `writer.tag(${fieldNumber}, ${WireType.LENGTH_DELIMITED}).bytes(packed.finish());`,
+        );
+      });
+      return;
+    }
+    this._writer.block(conditions, () => {
+      this._writer.addLine(`for (const item of ${value}) {`);
+      this._writer.indent();
+      this._writer.addLine(
+        this._getWriteStatement('writer', fieldNumber, field.fieldType, type, 'item', delimited),
+      );
+      this._writer.dedent();
+      this._writer.addLine('}');
+    });
+  }
+
+  generateEncode(node: MessageNode, messageName: string): void {
+    this._writer.addLine(
+      `export function encode(message: ${messageName}): ${this._context.getGlobalName('Uint8Array')} {`,
+    );
+    this._writer.indent();
+    this._writer.addLine('const writer = new $BinaryWriter();');
+    const fields = getFieldsByNumber(node);
+    for (let i = 0; i < fields.length; i += 1) {
+      this._generateFieldEncode(fields[i][0], fields[i][1]);
+    }
+    this._writer.block(['message.$unknown !== undefined'], () => {
+      this._writer.addLine('writer.raw(message.$unknown);');
+    });
+    this._writer.addLine('return writer.finish();');
+    this._writer.dedent();
+    this._writer.addLine('}');
+  }
+
+  /** `if (wireType === ...) { body; continue; }` in the field loop of decode */
+  private _generateDecodeBranch(wireType: number, body: () => void) {
+    this._writer.addLine(`if (wireType === ${wireType}) {`);
+    this._writer.indent();
+    body();
+    this._writer.addLine('continue;');
+    this._writer.dedent();
+    this._writer.addLine('}');
+  }
+
+  private _generateMapDecode(field: FieldNode, target: string) {
+    const [keyType, valueType] = field.fieldType.arguments;
+    const value = isMessageType(valueType, valueType.value, this._context)
+      ? `${this._context.getTypeName(valueType, valueType.value)}.decode(new ${this._context.getGlobalName('Uint8Array')}(0))`
+      : this._getZeroValue(field, valueType, valueType.value);
+    const values = this._getClosedEnumValues(valueType);
+    if (values === null) {
+      this._writer.addLine('const entry = new $BinaryReader(reader.bytes());');
+    } else {
+      this._writer.addLine('const bytes = reader.bytes();');
+      this._writer.addLine('const entry = new $BinaryReader(bytes);');
+    }
+    // `Long` keys are read as their decimal strings
+    const stringKeys = hasStringLongKeys(field, this._context);
+    this._writer.addLine(
+      `let key = ${stringKeys ? "'0'" : getZeroValue(keyType.value, field, this._context)};`,
+    );
+    this._writer.addLine(`let value: ${getMapValueType(field, this._context)} = ${value};`);
+    this._writer.addLine('while (!entry.done) {');
+    this._writer.indent();
+    this._writer.addLine('const [entryNumber, entryWireType] = entry.tag();');
+    this._writer.addLine('if (entryNumber === 1) {');
+    this._writer.indent();
+    this._writer.addLine(
+      `key = ${stringKeys ? `entry.${getCodecMethod(keyType.value)}().toString()` : this._getReadExpression('entry', field, keyType, keyType.value)};`,
+    );
+    this._writer.dedent();
+    this._writer.addLine('} else if (entryNumber === 2) {');
+    this._writer.indent();
+    this._writer.addLine(
+      `value = ${this._getReadExpression('entry', field, valueType, valueType.value)};`,
+    );
+    this._writer.dedent();
+    this._writer.addLine('} else {');
+    this._writer.indent();
+    this._writer.addLine('entry.skip(entryWireType, entryNumber);');
+    this._writer.dedent();
+    this._writer.addLine('}');
+    this._writer.dedent();
+    this._writer.addLine('}');
+    const set = () => {
+      if (this._options.mapType === 'Record') {
+        const key = getRecordKey(keyType.value, field, this._context, 'key');
+        this._writer.addLine(`${target}[${key}] = value;`);
+      } else {
+        this._writer.addLine(`${target}.set(key, value);`);
+      }
+    };
+    if (values === null) {
+      set();
+      return;
+    }
+    // entries with an unknown value of a closed enum are kept as a whole
+    const fieldNumber = parseIntegerLiteral(field.fieldNumber.value);
+    const unknown = `unknown.tag(${fieldNumber}, ${WireType.LENGTH_DELIMITED}).bytes(bytes);`;
+    this._generateEnumCheck(values, 'value', unknown, set);
+  }
+
+  private _generateFieldDecode(field: FieldNode, oneof: OneofNode | null) {
+    const type = field.fieldType.name;
+    const name = field.name.value;
+    const delimited = this._isDelimited(field);
+    // containers are created by the defaults, unless every property is optional
+    const optional = this._options.presence === 'all-optional';
+    if (isMapField(field)) {
+      const empty =
+        this._options.mapType === 'Record' ? '{}' : `new ${this._context.getGlobalName('Map')}()`;
+      const target = optional ? `(message.${name} ??= ${empty})` : `message.${name}`;
+      this._generateDecodeBranch(WireType.LENGTH_DELIMITED, () => {
+        this._generateMapDecode(field, target);
+      });
+      return;
+    }
+
+    const wireType = this._getWireType(field.fieldType, type, delimited);
+    if (field.label?.value === 'repeated') {
+      const target = optional ? `(message.${name} ??= [])` : `message.${name}`;
+      if (!isMessageField(field, this._context) && isPackable(type)) {
+        // parsers accept both packed and unpacked values
+        this._generateDecodeBranch(WireType.LENGTH_DELIMITED, () => {
+          this._writer.addLine('const packed = new $BinaryReader(reader.bytes());');
+          this._writer.addLine('while (!packed.done) {');
+          this._writer.indent();
+          this._generateValueDecode(field, 'packed', (value) => {
+            this._writer.addLine(`${target}.push(${value});`);
+          });
+          this._writer.dedent();
+          this._writer.addLine('}');
+        });
+      }
+      this._generateDecodeBranch(wireType, () => {
+        this._generateValueDecode(field, 'reader', (value) => {
+          this._writer.addLine(`${target}.push(${value});`);
+        });
+      });
+      return;
+    }
+
+    this._generateDecodeBranch(wireType, () => {
+      if (isMessageField(field, this._context)) {
+        this._generateMessageMerge(field, oneof);
+      }
+      this._generateValueDecode(field, 'reader', (value) => {
+        if (oneof === null) {
+          this._writer.addLine(`message.${name} = ${value};`);
+        } else if (this._options.oneofStyle === 'optional') {
+          this._writer.addLine(`message.${name} = ${value};`);
+          // the last member read wins
+          for (let i = 0; i < oneof.fields.length; i += 1) {
+            if (oneof.fields[i] !== field) {
+              this._writer.addLine(`delete message.${oneof.fields[i].name.value};`);
+            }
+          }
+        } else {
+          this._writer.addLine(
+            `message.${oneof.name.value} = ${this._getOneofValue(field, value)};`,
+          );
+        }
+      });
+    });
+  }
+
+  /**
+   * a message read again is merged into the one read before, as if their encodings were
+   * concatenated, the bytes to decode are then in `value`
+   */
+  private _generateMessageMerge(field: FieldNode, oneof: OneofNode | null) {
+    const content = this._isDelimited(field)
+      ? `reader.group(${parseIntegerLiteral(field.fieldNumber.value)})`
+      : 'reader.bytes()';
+    const previous =
+      oneof === null || this._options.oneofStyle === 'optional'
+        ? `message.${field.name.value}`
+        : `message.${oneof.name.value}.${field.name.value}`;
+    const condition =
+      oneof === null || this._options.oneofStyle === 'optional'
+        ? `${previous} !== undefined`
+        : this._getOneofCondition(oneof, field);
+    const typeName = this._context.getTypeName(field.fieldType, field.fieldType.name);
+    this._writer.addLine(`let value = ${content};`);
+    this._writer.block([condition], () => {
+      this._writer.addLine(
+        `value = new $BinaryWriter().raw(${typeName}.encode(${previous})).raw(value).finish();`,
+      );
+    });
+  }
+
+  /** reads a value of a singular or repeated field and passes it to `body` */
+  private _generateValueDecode(field: FieldNode, reader: string, body: (value: string) => void) {
+    const type = field.fieldType.name;
+    if (isMessageField(field, this._context) && field.label?.value !== 'repeated') {
+      body(`${this._context.getTypeName(field.fieldType, type)}.decode(value)`);
+      return;
+    }
+    const value = this._getReadExpression(
+      reader,
+      field,
+      field.fieldType,
+      type,
+      this._isDelimited(field),
+    );
+    const values = this._getClosedEnumValues(field.fieldType);
+    if (values === null) {
+      body(value);
+      return;
+    }
+    const fieldNumber = parseIntegerLiteral(field.fieldNumber.value);
+    this._writer.addLine(`const value = ${value};`);
+    const unknown = `unknown.tag(${fieldNumber}, ${WireType.VARINT}).int32(value);`;
+    this._generateEnumCheck(values, 'value', unknown, () => body('value'));
+  }
+
+  generateDecode(node: MessageNode, messageName: string): void {
+    this._writer.addLine(
+      `export function decode(bytes: ${this._context.getGlobalName('Uint8Array')}): ${messageName} {`,
+    );
+    this._writer.indent();
+    this._writer.addLine('const reader = new $BinaryReader(bytes);');
+    this._writer.addLine('const unknown = new $BinaryWriter();');
+    this._generateMessageDefaults(node, messageName);
+    this._writer.addLine('while (!reader.done) {');
+    this._writer.indent();
+    this._writer.addLine('const start = reader.pos;');
+    this._writer.addLine('const [fieldNumber, wireType] = reader.tag();');
+    const fields = getFieldsByNumber(node);
+    if (fields.length > 0) {
+      this._writer.addLine('switch (fieldNumber) {');
+      this._writer.indent();
+      for (let i = 0; i < fields.length; i += 1) {
+        this._writer.addLine(`case ${parseIntegerLiteral(fields[i][0].fieldNumber.value)}:`);
+        this._writer.indent();
+        this._generateFieldDecode(fields[i][0], fields[i][1]);
+        this._writer.addLine('break;');
+        this._writer.dedent();
+      }
+      this._writer.dedent();
+      this._writer.addLine('}');
+    }
+    // fields that are unknown or have an unexpected wire type are kept as they are
+    this._writer.addLine('reader.skip(wireType, fieldNumber);');
+    this._writer.addLine('unknown.raw(reader.buf.subarray(start, reader.pos));');
+    this._writer.dedent();
+    this._writer.addLine('}');
+    this._writer.block(['unknown.length > 0'], () => {
+      this._writer.addLine('message.$unknown = unknown.finish();');
+    });
+    this._writer.addLine('return message;');
+    this._writer.dedent();
+    this._writer.addLine('}');
+  }
+}
@@ -1,8 +1,17 @@
+import type { DiagnosticCode, Severity } from '@/diagnostic/define';
 import { Lexer } from '@/lexer/Lexer';
+import { getTokenName } from '@/lexer/helper';
 import { Parser } from '@/parser/Parser';
+import type { ProtoFileNode } from '@/parser/ASTType';
+import { Resolver } from '@/resolver/Resolver';
+import { SymbolTable } from '@/resolver/SymbolTable';
+import { Validator } from '@/validator/Validator';
 import { Generate, type GenerateOptions } from './Generate';
 
-interface CompilerError {
+export interface CompilerError {
+  /** stable code of the diagnostic, e.g. `P1001` */
+  code: DiagnosticCode;
+  severity: Severity;
   message: string;
   position: {
     line: number;
@@ -10,43 +19,106 @@ interface CompilerError {
     start: number;
     end: number;
   };
+  /** readable names of the tokens the parser expected at `position` */
+  expected?: string[];
+  /** path of the proto file the error comes from, only set when compiling a project */
+  file?: string;
 }
 
 export interface CompilerOutput {
   code: string;
   errors: CompilerError[];
+  /** diagnostics with the `warning` or `info` severity, they never suppress the output */
+  warnings: CompilerError[];
 }
 
-export function compile(input: string, options: Partial<GenerateOptions> = {}): CompilerOutput {
+export interface ParseOutput {
+  ast: ProtoFileNode | null;
+  errors: CompilerError[];
+}
+
+/** parse a proto file, the AST is partial when there are errors */
+export function parseProto(input: string): ParseOutput {
   const lexer = new Lexer(input);
   const lexerOutput = lexer.tokenize();
-  if (lexerOutput.errors.length > 0) {
-    const errors = lexerOutput.errors.map((error) => ({
+  const errors: CompilerError[] = lexerOutput.errors.map((error) => ({
+    code: error.code,
+    severity: 'error',
+    message: error.message,
+    position: {
+      line: error.line,
+      column: error.column,
+      start: error.position,
+      end: error.position + (error.length ?? 1),
+    },
+  }));
+  // the parser still runs on the recognized tokens so that editors get a partial AST
+  const parser = new Parser(lexerOutput.tokens);
+  const parserOutput = parser.parse();
+  for (let i = 0; i < parserOutput.errors.length; i += 1) {
+    const error = parserOutput.errors[i];
+    errors.push({
+      code: error.code,
+      severity: 'error',
       message: error.message,
-      position: {
-        line: error.line,
-        column: error.column,
-        start: error.position,
-        end: error.position + 1,
-      },
-    }));
+      position: error.position,
+      expected: error.expected?.map(getTokenName),
+    });
+  }
+  return {
+    ast: parserOutput.ast,
+    errors,
+  };
+}
+
+/** split diagnostics into errors and the `warning` or `info` ones */
+export function splitDiagnostics(diagnostics: CompilerError[]): {
+  errors: CompilerError[];
+  warnings: CompilerError[];
+} {
+  return {
+    errors: diagnostics.filter((item) => item.severity === 'error'),
+    warnings: diagnostics.filter((item) => item.severity !== 'error'),
+  };
+}
 
+export function compile(input: string, options: Partial<GenerateOptions> = {}): CompilerOutput {
+  const parserOutput = parseProto(input);
+  if (parserOutput.errors.length > 0 || parserOutput.ast === null) {
     return {
       code: '',
-      errors,
+      errors: parserOutput.errors,
+      warnings: [],
     };
   }
-  const parser = new Parser(lexerOutput.tokens);
-  const parserOutput = parser.parse();
-  if (parserOutput.errors.length > 0 || parserOutput.ast === null) {
+  const ast = parserOutput.ast;
+  const table = new SymbolTable();
+  table.addFile('', ast);
+  // types declared in imported files are unknown here, so they are emitted as written
+  const resolver = new Resolver(table, ast, [''], ast.imports.length > 0);
+  const resolverOutput = resolver.resolve();
+  const validator = new Validator(ast, table, resolverOutput.references);
+  const validatorOutput = validator.validate();
+  const { errors, warnings } = splitDiagnostics([
+    ...resolverOutput.errors,
+    ...validatorOutput.errors,
+  ]);
+  if (errors.length > 0 && !options.emitOnError) {
     return {
       code: '',
-      errors: parserOutput.errors,
+      errors,
+      warnings,
     };
   }
-  const generate = new Generate(parserOutput.ast, options);
+  const generate = new Generate(ast, options, {
+    path: '',
+    references: resolverOutput.references,
+    namedImports: false,
+    publicImports: [],
+  });
   return {
     code: generate.generate(),
-    errors: [],
+    errors,
+    warnings,
   };
 }
@@ -0,0 +1,85 @@
+import { Resolver, type ReferenceMap } from '@/resolver/Resolver';
+import { SymbolTable } from '@/resolver/SymbolTable';
+import { Validator } from '@/validator/Validator';
+import { splitDiagnostics, type CompilerError } from './compile';
+import { Generate, type GenerateOptions } from './Generate';
+import { Project, type ProjectOptions } from './Project';
+
+export interface ProjectFileOutput {
+  /** path of the proto file the code was generated from */
+  path: string;
+  code: string;
+}
+
+export interface ProjectOutput {
+  files: ProjectFileOutput[];
+  errors: CompilerError[];
+  /** diagnostics with the `warning` or `info` severity, they never suppress the output */
+  warnings: CompilerError[];
+}
+
+export function compileProject(
+  entries: string[],
+  projectOptions: Partial<ProjectOptions>,
+  options: Partial<GenerateOptions> = {},
+): ProjectOutput {
+  const project = new Project(projectOptions);
+  for (let i = 0; i < entries.length; i += 1) {
+    project.load(entries[i]);
+  }
+  if (project.errors.length > 0) {
+    return {
+      files: [],
+      errors: project.errors,
+      warnings: [],
+    };
+  }
+
+  const projectFiles = project.files;
+  const table = new SymbolTable();
+  for (let i = 0; i < projectFiles.length; i += 1) {
+    table.addFile(projectFiles[i].path, projectFiles[i].ast);
+  }
+
+  const diagnostics: CompilerError[] = [];
+  const references: ReferenceMap[] = [];
+  for (let i = 0; i < projectFiles.length; i += 1) {
+    const file = projectFiles[i];
+    const visibleFiles = project.getVisibleFiles(file.path).map((item) => item.path);
+    const resolver = new Resolver(table, file.ast, [file.path, ...visibleFiles]);
+    const resolverOutput = resolver.resolve();
+    for (let j = 0; j < resolverOutput.errors.length; j += 1) {
+      diagnostics.push({ ...resolverOutput.errors[j], file: file.path });
+    }
+    references.push(resolverOutput.references);
+
+    const validator = new Validator(file.ast, table, resolverOutput.references);
+    const validatorOutput = validator.validate();
+    for (let j = 0; j < validatorOutput.errors.length; j += 1) {
+      diagnostics.push({ ...validatorOutput.errors[j], file: file.path });
+    }
+  }
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+  if (errors.length > 0 && !options.emitOnError) {
+    return {
+      files: [],
+      errors,
+      warnings,
+    };
+  }
+
+  const files = projectFiles.map((file, index) => {
+    const generate = new Generate(file.ast, options, {
+      path: file.path,
+      references: references[index],
+      namedImports: true,
+      publicImports: file.publicImports,
+    });
+    return { path: file.path, code: generate.generate() };
+  });
+  return {
+    files,
+    errors,
+    warnings,
+  };
+}
@@ -45,3 +45,27 @@ export const RESERVED_KEYWORDS: string[] = [
   'static',
   'yield',
 ];
+
+/** globals of the generated code, a declaration of the same name makes it use `globalThis.Name` */
+export const GLOBAL_NAMES: string[] = [
+  'Array',
+  'ArrayBuffer',
+  'AsyncIterable',
+  'BigInt',
+  'DataView',
+  'Date',
+  'Error',
+  'Map',
+  'Math',
+  'Number',
+  'Object',
+  'Promise',
+  'Record',
+  'RegExp',
+  'Set',
+  'String',
+  'TextDecoder',
+  'TextEncoder',
+  'TypeError',
+  'Uint8Array',
+];
@@ -0,0 +1,156 @@
+import type {
+  FieldNode,
+  FieldTypeNode,
+  IdentifierNode,
+  MessageNode,
+  OneofNode,
+} from '@/parser/ASTType';
+import { getIntegerDigits, isScalarType } from '@/parser/helper';
+import { Emitter } from './Emitter';
+import {
+  getDefaultBytes,
+  getDefaultValue,
+  getFieldsByNumber,
+  getLongRepresentation,
+  isLongType,
+  isMapField,
+  isMessageField,
+  isMessageType,
+} from './helper';
+import { getLongFromString } from './json';
+
+/** `createFoo` factories filling the fields missing from a partial message with their defaults */
+export class FactoryEmitter extends Emitter {
+  /** proto2 fields start with their `[default = ...]` value */
+  protected _getInitialValue(field: FieldNode): string | null {
+    return this._getDeclaredDefault(field) ?? this._getDefaultValue(field);
+  }
+
+  /** value of the `[default = ...]` option of a singular scalar or enum field */
+  private _getDeclaredDefault(field: FieldNode): string | null {
+    const value = getDefaultValue(field);
+    const type = field.fieldType.name;
+    if (
+      value === null ||
+      field.label?.value === 'repeated' ||
+      isMessageField(field, this._context)
+    ) {
+      return null;
+    }
+    if (!isScalarType(type)) {
+      return this._context.getEnumValue(field.fieldType, type, value);
+    }
+    if (type === 'bytes') {
+      const bytes = Array.from(getDefaultBytes(field) ?? []);
+      return `new ${this._context.getGlobalName('Uint8Array')}([${bytes.join(', ')}])`;
+    }
+    if (type === 'bool' || type === 'string') {
+      return value;
+    }
+    // octal literals are not allowed in modules, integers are written as decimal numbers
+    const digits = getIntegerDigits(value) ?? value;
+    if (isLongType(type) && getLongRepresentation(field, this._context.options) !== 'number') {
+      return getLongFromString(type, field, this._context, `'${digits}'`);
+    }
+    return digits;
+  }
+
+  /** copy of a value of the partial message, messages are created by their own factory */
+  private _getFactoryValue(node: FieldTypeNode | IdentifierNode, type: string, value: string) {
+    if (!isMessageType(node, type, this._context)) {
+      return value;
+    }
+    const factory = this._context.getFunctionName(node, 'create');
+    return factory === null ? value : `${factory}(${value})`;
+  }
+
+  private _getFactoryFieldValue(field: FieldNode, value: string): string {
+    if (isMapField(field)) {
+      const valueType = field.fieldType.arguments[1];
+      const isMessage = isMessageType(valueType, valueType.value, this._context);
+      if (this._options.mapType === 'Record') {
+        // entries of a deep partial record may be undefined
+        const item = isMessage
+          ? this._getFactoryValue(valueType, valueType.value, 'item')
+          : `item ?? ${this._getZeroValue(field, valueType, valueType.value)}`;
+        const object = this._context.getGlobalName('Object');
+        return `${object}.fromEntries(${object}.entries(${value}).map(([key, item]) => [key, ${item}] as const))`;
+      }
+      const map = this._context.getGlobalName('Map');
+      if (!isMessage) {
+        return `new ${map}(${value})`;
+      }
+      const item = this._getFactoryValue(valueType, valueType.value, 'item');
+      const array = this._context.getGlobalName('Array');
+      return `new ${map}(${array}.from(${value}, ([key, item]) => [key, ${item}] as const))`;
+    }
+    if (field.label?.value === 'repeated') {
+      if (!isMessageType(field.fieldType, field.fieldType.name, this._context)) {
+        return `[...${value}]`;
+      }
+      const item = this._getFactoryValue(field.fieldType, field.fieldType.name, 'item');
+      return `${value}.map((item) => ${item})`;
+    }
+    return this._getFactoryValue(field.fieldType, field.fieldType.name, value);
+  }
+
+  /** `message.oneof = { $case: ... }` for the member selected in `partial`, members are completed */
+  private _generateOneofFactory(node: OneofNode) {
+    const oneof = `partial.${node.name.value}`;
+    for (let i = 0; i < node.fields.length; i += 1) {
+      const field = node.fields[i];
+      const name = field.name.value;
+      const member = `${oneof}.${name}`;
+      const value = isMessageField(field, this._context)
+        ? this._getFactoryFieldValue(field, member)
+        : `${member} ?? ${this._getZeroValue(field, field.fieldType, field.fieldType.name)}`;
+      this._writer.block([this._getOneofCondition(node, field, 'partial')], () => {
+        this._writer.addLine(`message.${node.name.value} = ${this._getOneofValue(field, value)};`);
+      });
+    }
+  }
+
+  generateFactory(node: MessageNode, messageName: string): void {
+    const start = this._writer.lines.length;
+    this._writer.lines.push('');
+    this._writer.indent();
+    this._generateMessageDefaults(node, messageName);
+    const fields = getFieldsByNumber(node);
+    for (let i = 0; i < fields.length; i += 1) {
+      const [field, oneof] = fields[i];
+      if (oneof !== null && this._options.oneofStyle !== 'optional') {
+        continue;
+      }
+      const value = `partial.${field.name.value}`;
+      this._writer.block([`${value} !== undefined`], () => {
+        this._writer.addLine(
+          `message.${field.name.value} = ${this._getFactoryFieldValue(field, value)};`,
+        );
+      });
+    }
+    if (this._options.oneofStyle !== 'optional') {
+      for (let i = 0; i < node.oneofs.length; i += 1) {
+        this._generateOneofFactory(node.oneofs[i]);
+      }
+    }
+    if (this._hasUnknownFields()) {
+      this._writer.block(['partial.$unknown !== undefined'], () => {
+        this._writer.addLine('message.$unknown = partial.$unknown;');
+      });
+    }
+    this._writer.addLine('return message;');
+    this._writer.dedent();
+    this._writer.addLine('}');
+
+    // unused parameters are prefixed with `_`, for projects with `noUnusedParameters`
+    const partial = this._writer.lines.slice(start).some((line) => line.includes('partial.'))
+      ? 'partial'
+      : '_partial';
+    const partialType =
+      this._options.presence === 'partial-input'
+        ? `${messageName}Input`
+        : `$DeepPartial<${messageName}>`;
+    this._writer.lines[start] =
+      `${this._writer.indentation}export function create${messageName}(${partial}: ${partialType} = {}): ${messageName} {`;
+  }
+}
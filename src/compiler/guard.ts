@@ -0,0 +1,705 @@
+import {
+  ASTKind,
+  type AggregateValueNode,
+  type EnumNode,
+  type FieldNode,
+  type FieldOptionNode,
+  type FieldTypeNode,
+  type IdentifierNode,
+  type MessageNode,
+  type OneofNode,
+} from '@/parser/ASTType';
+import { isScalarType, parseIntegerLiteral } from '@/parser/helper';
+import { resolveFeatures } from '@/resolver/features';
+import { SymbolKind } from '@/resolver/SymbolTable';
+import { Emitter } from './Emitter';
+import {
+  getLongRepresentation,
+  hasStringLongKeys,
+  getRawFieldName,
+  getWellKnownType,
+  isLongType,
+  isMapField,
+  isFlatOneof,
+  isOptionalField,
+  type TypeContext,
+} from './helper';
+import { getIntegerRange } from './json';
+
+/** field options of protoc-gen-validate and protovalidate, both use the same rule names */
+const RULE_OPTIONS = ['(validate.rules)', '(buf.validate.field)'];
+
+/** rules of a field keyed by their path, e.g. `string.min_len` or `repeated.items.int32.gte` */
+export type ValidationRules = Map<string, AggregateValueNode[]>;
+
+function addRule(rules: ValidationRules, path: string, value: AggregateValueNode) {
+  if (value.type === ASTKind.AGGREGATE) {
+    for (let i = 0; i < value.fields.length; i += 1) {
+      const field = value.fields[i];
+      addRule(rules, path ? `${path}.${field.name.value}` : field.name.value, field.value);
+    }
+    return;
+  }
+  const values = rules.get(path) ?? [];
+  // `in: [1, 2]` and repeated `in: 1 in: 2` are the same list
+  values.push(...(value.type === ASTKind.LIST ? value.values : [value]));
+  rules.set(path, values);
+}
+
+/** validation rules set by `(validate.rules)` and `(buf.validate.field)` options */
+export function getValidationRules(options: FieldOptionNode[]): ValidationRules {
+  const rules: ValidationRules = new Map();
+  for (let i = 0; i < options.length; i += 1) {
+    const { name, value } = options[i];
+    const prefix = RULE_OPTIONS.find((option) => name.value.startsWith(option));
+    if (prefix !== undefined) {
+      addRule(rules, name.value.slice(prefix.length).replace(/^\./, ''), value);
+    }
+  }
+  return rules;
+}
+
+/** rules below `path`, e.g. the `repeated.items` rules that apply to every element */
+export function getNestedRules(rules: ValidationRules, path: string): ValidationRules {
+  const nested: ValidationRules = new Map();
+  rules.forEach((values, key) => {
+    if (key.startsWith(`${path}.`)) {
+      nested.set(key.slice(path.length + 1), values);
+    }
+  });
+  return nested;
+}
+
+/** whether a boolean rule such as `message.required` is set */
+export function hasRule(rules: ValidationRules, path: string): boolean {
+  const values = rules.get(path) ?? [];
+  return values.some((value) => value.type === ASTKind.BOOLEAN_LITERAL && value.value);
+}
+
+/** TypeScript literal of a rule value */
+function getLiteral(value: AggregateValueNode): string {
+  switch (value.type) {
+    case ASTKind.STRING_LITERAL:
+      return JSON.stringify(value.value);
+    case ASTKind.NUMBER_LITERAL:
+    case ASTKind.IDENTIFIER: {
+      const integer = parseIntegerLiteral(value.value);
+      if (!Number.isNaN(integer)) {
+        return String(integer);
+      }
+      if (/^[-+]?inf(inity)?$/i.test(value.value)) {
+        return value.value.startsWith('-') ? '-Infinity' : 'Infinity';
+      }
+      if (/^[-+]?nan$/i.test(value.value)) {
+        return 'NaN';
+      }
+      const number = Number(value.value);
+      return Number.isNaN(number) ? JSON.stringify(value.value) : String(number);
+    }
+    case ASTKind.BOOLEAN_LITERAL:
+      return String(value.value);
+    default:
+      return 'undefined';
+  }
+}
+
+function getLiterals(rules: ValidationRules, name: string): string[] {
+  return (rules.get(name) ?? []).map(getLiteral);
+}
+
+/** smallest and largest value of the 32-bit integer types */
+const INT32_LIMITS: Record<string, [number, number]> = {
+  int32: [-2147483648, 2147483647],
+  uint32: [0, 4294967295],
+};
+
+/** type check of an integer held in a number, within the range of its type */
+function getIntegerGuard(type: string, context: TypeContext, value: string): string {
+  const checks = [
+    `typeof ${value} === 'number'`,
+    `${context.getGlobalName('Number')}.isInteger(${value})`,
+  ];
+  const range = getIntegerRange(type);
+  if (Object.hasOwn(INT32_LIMITS, range)) {
+    const [min, max] = INT32_LIMITS[range];
+    checks.push(`${value} >= ${min}`, `${value} <= ${max}`);
+  } else if (range === 'uint64') {
+    checks.push(`${value} >= 0`);
+  }
+  return checks.join(' && ');
+}
+
+/** type check of a scalar value, the type of the generated property */
+export function getScalarGuard(
+  type: string,
+  field: FieldNode | null,
+  context: TypeContext,
+  value: string,
+): string {
+  if (isLongType(type)) {
+    switch (getLongRepresentation(field, context.options)) {
+      case 'string':
+        return `typeof ${value} === 'string'`;
+      case 'bigint':
+        return `typeof ${value} === 'bigint'`;
+      case 'Long':
+        return `${context.longName}.isLong(${value})`;
+      default:
+        return getIntegerGuard(type, context, value);
+    }
+  }
+  switch (type) {
+    case 'double':
+    case 'float':
+      return `typeof ${value} === 'number'`;
+    case 'bool':
+      return `typeof ${value} === 'boolean'`;
+    case 'string':
+      return `typeof ${value} === 'string'`;
+    case 'bytes':
+      return context.options.jsonMapping
+        ? `typeof ${value} === 'string'`
+        : `${value} instanceof ${context.getGlobalName('Uint8Array')}`;
+    default:
+      return getIntegerGuard(type, context, value);
+  }
+}
+
+const NUMBER_COMPARISONS: Record<string, string> = { lt: '<', lte: '<=', gt: '>', gte: '>=' };
+
+/** `const`, range and `in` rules of numbers, `value` is a number expression */
+function getNumberConstraints(rules: ValidationRules, value: string): string[] {
+  const constraints = getLiterals(rules, 'const').map((literal) => `${value} === ${literal}`);
+  for (const [rule, operator] of Object.entries(NUMBER_COMPARISONS)) {
+    constraints.push(
+      ...getLiterals(rules, rule).map((literal) => `${value} ${operator} ${literal}`),
+    );
+  }
+  return constraints.concat(getListConstraints(rules, value));
+}
+
+function getListConstraints(rules: ValidationRules, value: string): string[] {
+  const constraints: string[] = [];
+  const values = getLiterals(rules, 'in');
+  if (values.length > 0) {
+    constraints.push(`[${values.join(', ')}].includes(${value})`);
+  }
+  const excluded = getLiterals(rules, 'not_in');
+  if (excluded.length > 0) {
+    constraints.push(`![${excluded.join(', ')}].includes(${value})`);
+  }
+  return constraints;
+}
+
+const STRING_LENGTHS: Record<string, string> = { len: '===', min_len: '>=', max_len: '<=' };
+const BYTE_LENGTHS: Record<string, string> = { len_bytes: '===', min_bytes: '>=', max_bytes: '<=' };
+
+/**
+ * regex literal of a `pattern` rule, `null` for RE2 syntax that JavaScript can not parse, the
+ * validator reports those
+ */
+function getPatternLiteral(pattern: string): string | null {
+  try {
+    // `source` escapes the slashes and line terminators of the pattern
+    return `/${new RegExp(pattern).source}/`;
+  } catch {
+    return null;
+  }
+}
+
+/** module-level regexes of the `pattern` rules, the name of each constant keyed by its literal */
+export type Patterns = Map<string, string>;
+
+function getPatternConstraints(
+  rules: ValidationRules,
+  patterns: Patterns,
+  value: string,
+): string[] {
+  const constraints: string[] = [];
+  const values = rules.get('pattern') ?? [];
+  for (let i = 0; i < values.length; i += 1) {
+    const item = values[i];
+    const literal = item.type === ASTKind.STRING_LITERAL ? getPatternLiteral(item.value) : null;
+    if (literal === null) {
+      continue;
+    }
+    let name = patterns.get(literal);
+    if (name === undefined) {
+      name = `$pattern${patterns.size}`;
+      patterns.set(literal, name);
+    }
+    constraints.push(`${name}.test(${value})`);
+  }
+  return constraints;
+}
+
+function getStringConstraints(
+  rules: ValidationRules,
+  context: TypeContext,
+  patterns: Patterns,
+  value: string,
+): string[] {
+  const constraints = getLiterals(rules, 'const').map((literal) => `${value} === ${literal}`);
+  // lengths are counted in code points
+  for (const [rule, operator] of Object.entries(STRING_LENGTHS)) {
+    constraints.push(
+      ...getLiterals(rules, rule).map((literal) => `[...${value}].length ${operator} ${literal}`),
+    );
+  }
+  for (const [rule, operator] of Object.entries(BYTE_LENGTHS)) {
+    constraints.push(
+      ...getLiterals(rules, rule).map(
+        (literal) =>
+          `new ${context.getGlobalName('TextEncoder')}().encode(${value}).length ${operator} ${literal}`,
+      ),
+    );
+  }
+  constraints.push(
+    ...getPatternConstraints(rules, patterns, value),
+    ...getLiterals(rules, 'prefix').map((literal) => `${value}.startsWith(${literal})`),
+    ...getLiterals(rules, 'suffix').map((literal) => `${value}.endsWith(${literal})`),
+    ...getLiterals(rules, 'contains').map((literal) => `${value}.includes(${literal})`),
+    ...getLiterals(rules, 'not_contains').map((literal) => `!${value}.includes(${literal})`),
+  );
+  if (hasRule(rules, 'email')) {
+    constraints.push(`/^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$/.test(${value})`);
+  }
+  if (hasRule(rules, 'uuid')) {
+    constraints.push(`/^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$/i.test(${value})`);
+  }
+  return constraints.concat(getListConstraints(rules, value));
+}
+
+/**
+ * checks of the rules of a scalar type, e.g. `string.min_len`, on a value that passed the
+ * type check of `getScalarGuard`
+ */
+export function getScalarConstraints(
+  type: string,
+  field: FieldNode,
+  context: TypeContext,
+  rules: ValidationRules,
+  patterns: Patterns,
+  value: string,
+): string[] {
+  const typeRules = getNestedRules(rules, type);
+  if (typeRules.size === 0) {
+    return [];
+  }
+  if (type === 'string') {
+    return getStringConstraints(typeRules, context, patterns, value);
+  }
+  if (type === 'bytes') {
+    // the base64 strings of the JSON mapping are not checked
+    if (context.options.jsonMapping) {
+      return [];
+    }
+    return Object.entries(STRING_LENGTHS).flatMap(([rule, operator]) =>
+      getLiterals(typeRules, rule).map((literal) => `${value}.length ${operator} ${literal}`),
+    );
+  }
+  if (type === 'bool') {
+    return getLiterals(typeRules, 'const').map((literal) => `${value} === ${literal}`);
+  }
+  const number =
+    isLongType(type) && getLongRepresentation(field, context.options) !== 'number'
+      ? `${context.getGlobalName('Number')}(${value})`
+      : value;
+  return getNumberConstraints(typeRules, number);
+}
+
+/** checks of the `enum` rules on a value that is a known value of the enum */
+export function getEnumConstraints(
+  rules: ValidationRules,
+  value: string,
+  getValue: (literal: string) => string,
+): string[] {
+  const enumRules = getNestedRules(rules, 'enum');
+  const constraints = getLiterals(enumRules, 'const').map(
+    (literal) => `${value} === ${getValue(literal)}`,
+  );
+  const values = getLiterals(enumRules, 'in');
+  if (values.length > 0) {
+    constraints.push(`[${values.map(getValue).join(', ')}].includes(${value})`);
+  }
+  const excluded = getLiterals(enumRules, 'not_in');
+  if (excluded.length > 0) {
+    constraints.push(`![${excluded.map(getValue).join(', ')}].includes(${value})`);
+  }
+  return constraints;
+}
+
+/** checks of the `repeated` and `map` rules on an array or on the number of entries of a map */
+export function getCollectionConstraints(
+  rules: ValidationRules,
+  context: TypeContext,
+  kind: 'repeated' | 'map',
+  size: string,
+  value: string,
+): string[] {
+  const [min, max] = kind === 'repeated' ? ['min_items', 'max_items'] : ['min_pairs', 'max_pairs'];
+  const constraints = [
+    ...getLiterals(rules, `${kind}.${min}`).map((literal) => `${size} >= ${literal}`),
+    ...getLiterals(rules, `${kind}.${max}`).map((literal) => `${size} <= ${literal}`),
+  ];
+  if (kind === 'repeated' && hasRule(rules, 'repeated.unique')) {
+    constraints.push(`new ${context.getGlobalName('Set')}(${value}).size === ${value}.length`);
+  }
+  return constraints;
+}
+
+/**
+ * type check of the idiomatic type of a well-known type, `null` for other types and for
+ * `google.protobuf.Value` that may be any value
+ */
+export function getWellKnownGuard(
+  fullName: string,
+  context: TypeContext,
+  value: string,
+): string | null {
+  switch (fullName) {
+    case 'google.protobuf.Timestamp':
+      return context.options.jsonMapping
+        ? `typeof ${value} === 'string'`
+        : `(typeof ${value} === 'string' || ${value} instanceof ${context.getGlobalName('Date')})`;
+    case 'google.protobuf.Duration':
+    case 'google.protobuf.FieldMask':
+      return `typeof ${value} === 'string'`;
+    case 'google.protobuf.DoubleValue':
+    case 'google.protobuf.FloatValue':
+      return `(${value} === null || typeof ${value} === 'number')`;
+    case 'google.protobuf.Int32Value':
+      return `(${value} === null || ${getScalarGuard('int32', null, context, value)})`;
+    case 'google.protobuf.UInt32Value':
+      return `(${value} === null || ${getScalarGuard('uint32', null, context, value)})`;
+    case 'google.protobuf.Int64Value':
+      return `(${value} === null || ${getScalarGuard('int64', null, context, value)})`;
+    case 'google.protobuf.UInt64Value':
+      return `(${value} === null || ${getScalarGuard('uint64', null, context, value)})`;
+    case 'google.protobuf.BoolValue':
+      return `(${value} === null || typeof ${value} === 'boolean')`;
+    case 'google.protobuf.StringValue':
+      return `(${value} === null || typeof ${value} === 'string')`;
+    case 'google.protobuf.BytesValue':
+      return `(${value} === null || ${value} instanceof ${context.getGlobalName('Uint8Array')})`;
+    case 'google.protobuf.Struct':
+      return `$isObject(${value})`;
+    case 'google.protobuf.Empty':
+      return `$isObject(${value}) && ${context.getGlobalName('Object')}.keys(${value}).length === 0`;
+    case 'google.protobuf.ListValue':
+      return `${context.getGlobalName('Array')}.isArray(${value})`;
+    case 'google.protobuf.NullValue':
+      return `${value} === null`;
+    case 'google.protobuf.Any':
+      return `$isObject(${value}) && typeof ${value}['@type'] === 'string'`;
+    default:
+      return null;
+  }
+}
+
+/** `isFoo` type guards of messages and enums, with the checks of the validation rules */
+export class GuardEmitter extends Emitter {
+  /** regexes of the `pattern` rules, declared once at the top of the module */
+  patterns: Patterns = new Map();
+
+  /** checks of the value of an enum field beyond its guard, from the `enum` rules */
+  private _getEnumConstraints(node: EnumNode, rules: ValidationRules, value: string): string[] {
+    const values = [...new Set(node.fields.map((field) => parseIntegerLiteral(field.value.value)))];
+    // the JSON mapping uses the value names, rules are written with the numbers
+    const getValue = (literal: string) => {
+      if (!this._options.jsonMapping) {
+        return literal;
+      }
+      const match = node.fields.find(
+        (field) => parseIntegerLiteral(field.value.value) === Number(literal),
+      );
+      return match === undefined ? JSON.stringify(literal) : `'${match.name.value}'`;
+    };
+    const constraints = getEnumConstraints(rules, value, getValue);
+    if (!this._options.jsonMapping && hasRule(rules, 'enum.defined_only')) {
+      constraints.push(`[${values.join(', ')}].includes(${value})`);
+    }
+    return constraints;
+  }
+
+  /** checks of a single value of the type `type` and of its validation rules */
+  private _getValueChecks(
+    field: FieldNode,
+    node: FieldTypeNode | IdentifierNode,
+    type: string,
+    rules: ValidationRules,
+    value: string,
+  ): string[] {
+    if (isScalarType(type)) {
+      return [
+        getScalarGuard(type, field, this._context, value),
+        ...getScalarConstraints(type, field, this._context, rules, this.patterns, value),
+      ];
+    }
+    const symbol = this._context.getSymbol(node);
+    const fullName = symbol?.fullName ?? (type.startsWith('.') ? type.slice(1) : type);
+    if (
+      (this._options.wellKnownTypes === 'idiomatic' || this._options.jsonMapping) &&
+      getWellKnownType(fullName, this._context) !== null
+    ) {
+      const guard = getWellKnownGuard(fullName, this._context, value);
+      return guard === null ? [] : [guard];
+    }
+    const guard = this._context.getFunctionName(node, 'is');
+    const checks = guard === null ? [] : [`${guard}(${value})`];
+    if (symbol?.kind === SymbolKind.ENUM) {
+      checks.push(...this._getEnumConstraints(symbol.node, rules, value));
+    }
+    return checks;
+  }
+
+  /** checks of a field value, including the items of lists and the entries of maps */
+  private _getFieldChecks(field: FieldNode, rules: ValidationRules, value: string): string[] {
+    if (isMapField(field)) {
+      const [keyType, valueType] = field.fieldType.arguments;
+      const keyRules = getNestedRules(rules, 'map.keys');
+      const valueChecks = this._getValueChecks(
+        field,
+        valueType,
+        valueType.value,
+        getNestedRules(rules, 'map.values'),
+        'item',
+      );
+      let checks: string[];
+      let keyChecks: string[];
+      let entries: string;
+      if (this._options.jsonMapping || this._options.mapType === 'Record') {
+        // keys of records are always strings at runtime, only their rules are checked
+        const numeric =
+          keyType.value !== 'string' &&
+          (!isLongType(keyType.value) ||
+            getLongRepresentation(field, this._context.options) === 'number');
+        keyChecks =
+          keyType.value === 'bool'
+            ? []
+            : getScalarConstraints(
+                keyType.value,
+                field,
+                this._context,
+                keyRules,
+                this.patterns,
+                numeric ? `${this._context.getGlobalName('Number')}(key)` : 'key',
+              );
+        const object = this._context.getGlobalName('Object');
+        checks = [
+          `$isObject(${value})`,
+          ...getCollectionConstraints(
+            rules,
+            this._context,
+            'map',
+            `${object}.keys(${value}).length`,
+            value,
+          ),
+        ];
+        entries = `${object}.entries(${value})`;
+      } else {
+        keyChecks = [
+          hasStringLongKeys(field, this._context)
+            ? "typeof key === 'string'"
+            : getScalarGuard(keyType.value, field, this._context, 'key'),
+          ...getScalarConstraints(
+            keyType.value,
+            field,
+            this._context,
+            keyRules,
+            this.patterns,
+            'key',
+          ),
+        ];
+        checks = [
+          `${value} instanceof ${this._context.getGlobalName('Map')}`,
+          ...getCollectionConstraints(rules, this._context, 'map', `${value}.size`, value),
+        ];
+        entries = `${this._context.getGlobalName('Array')}.from(${value})`;
+      }
+      if (keyChecks.length > 0 || valueChecks.length > 0) {
+        const entry = `[${keyChecks.length > 0 ? 'key' : ''}${valueChecks.length > 0 ? ', item' : ''}]`;
+        checks.push(
+          `${entries}.every((${entry}) => ${[...keyChecks, ...valueChecks].join(' && ')})`,
+        );
+      }
+      return checks;
+    }
+    if (field.label?.value === 'repeated') {
+      const itemChecks = this._getValueChecks(
+        field,
+        field.fieldType,
+        field.fieldType.name,
+        getNestedRules(rules, 'repeated.items'),
+        'item',
+      );
+      const checks = [
+        `${this._context.getGlobalName('Array')}.isArray(${value})`,
+        ...getCollectionConstraints(rules, this._context, 'repeated', `${value}.length`, value),
+      ];
+      if (itemChecks.length > 0) {
+        checks.push(`${value}.every((item) => ${itemChecks.join(' && ')})`);
+      }
+      return checks;
+    }
+    return this._getValueChecks(field, field.fieldType, field.fieldType.name, rules, 'field');
+  }
+
+  /** `return false` unless `field` passes the checks, an absent optional field always passes */
+  private _generateGuardCheck(checks: string[], optional: boolean) {
+    let condition = 'field === undefined';
+    // single calls and parenthesized checks are negated as they are
+    if (checks.length === 1 && (!checks[0].includes(' ') || /^\(.*\)$/.test(checks[0]))) {
+      condition = `!${checks[0]}`;
+    } else if (checks.length > 0) {
+      condition = `!(${checks.join(' && ')})`;
+    }
+    if (optional) {
+      condition = `field !== undefined && ${condition}`;
+    }
+    this._writer.block([condition], () => {
+      this._writer.addLine('return false;');
+    });
+  }
+
+  private _generateFieldGuard(field: FieldNode, optional: boolean) {
+    const rules = getValidationRules(field.options);
+    const checks = this._getFieldChecks(field, rules, 'field');
+    if (optional && (hasRule(rules, 'required') || hasRule(rules, 'message.required'))) {
+      optional = false;
+    }
+    if (optional && checks.length === 0) {
+      return;
+    }
+    this._writer.addLine(`field = value['${getRawFieldName(field, this._options)}'];`);
+    this._generateGuardCheck(checks, optional);
+  }
+
+  /** the `union` and `kind` oneof properties, the member selected by the discriminator is checked */
+  private _generateOneofGuard(node: OneofNode) {
+    const discriminator = this._options.oneofStyle === 'union' ? '$case' : 'oneofKind';
+    const optional =
+      this._options.oneofStyle === 'union' || this._options.presence === 'all-optional';
+    this._writer.addLine(`field = value['${node.name.value}'];`);
+    this._writer.block(optional ? ['field !== undefined'] : [], () => {
+      this._writer.block(['!$isObject(field)'], () => {
+        this._writer.addLine('return false;');
+      });
+      this._writer.addLine('oneof = field;');
+      for (let i = 0; i < node.fields.length; i += 1) {
+        const field = node.fields[i];
+        const name = getRawFieldName(field, this._options);
+        this._writer.addLine(
+          `${i > 0 ? '} else if' : 'if'} (oneof['${discriminator}'] === '${name}') {`,
+        );
+        this._writer.indent();
+        this._writer.addLine(`field = oneof['${name}'];`);
+        this._generateGuardCheck(
+          this._getFieldChecks(field, getValidationRules(field.options), 'field'),
+          false,
+        );
+        this._writer.dedent();
+      }
+      // `{ oneofKind: undefined }` is the unset oneof
+      this._writer.addLine(
+        discriminator === 'oneofKind'
+          ? `} else if (oneof['${discriminator}'] !== undefined) {`
+          : '} else {',
+      );
+      this._writer.indent();
+      this._writer.addLine('return false;');
+      this._writer.dedent();
+      this._writer.addLine('}');
+    });
+  }
+
+  /** members of an `optional` oneof are separate properties, at most one of them may be set */
+  private _generateOneofMembersGuard(node: OneofNode) {
+    if (node.fields.length < 2) {
+      return;
+    }
+    const members = node.fields.map((field) => `value['${getRawFieldName(field, this._options)}']`);
+    this._writer.block(
+      [`[${members.join(', ')}].filter((item) => item !== undefined).length > 1`],
+      () => {
+        this._writer.addLine('return false;');
+      },
+    );
+  }
+
+  generateMessageGuard(node: MessageNode, messageName: string): void {
+    this._writer.addLine(
+      `export function is${messageName}(value: unknown): value is ${messageName} {`,
+    );
+    this._writer.indent();
+    this._writer.block(['!$isObject(value)'], () => {
+      this._writer.addLine('return false;');
+    });
+    const start = this._writer.lines.length;
+    for (let i = 0; i < node.fields.length; i += 1) {
+      this._generateFieldGuard(node.fields[i], isOptionalField(node.fields[i], this._context));
+    }
+    const oneofs = node.oneofs.filter((oneof) => oneof.fields.length > 0);
+    for (let i = 0; i < oneofs.length; i += 1) {
+      if (isFlatOneof(this._options)) {
+        for (let j = 0; j < oneofs[i].fields.length; j += 1) {
+          this._generateFieldGuard(oneofs[i].fields[j], true);
+        }
+        this._generateOneofMembersGuard(oneofs[i]);
+      } else {
+        this._generateOneofGuard(oneofs[i]);
+      }
+    }
+    if (this._hasUnknownFields()) {
+      this._writer.addLine("field = value['$unknown'];");
+      this._generateGuardCheck(
+        [`field instanceof ${this._context.getGlobalName('Uint8Array')}`],
+        true,
+      );
+    }
+    if (this._writer.lines.length > start) {
+      const declarations = ['let field: unknown;'];
+      if (!isFlatOneof(this._options) && oneofs.length > 0) {
+        declarations.push(`let oneof: ${this._context.getGlobalName('Record')}<string, unknown>;`);
+      }
+      this._writer.lines.splice(
+        start,
+        0,
+        ...declarations.map((line) => `${this._writer.indentation}${line}`),
+      );
+    }
+    this._writer.addLine('return true;');
+    this._writer.dedent();
+    this._writer.addLine('}');
+  }
+
+  generateEnumGuard(node: EnumNode, enumName: string): void {
+    if (this._options.jsonMapping) {
+      // enums are written as their value names
+      const names = node.fields.map((field) => `'${field.name.value}'`);
+      const type = names.length > 0 ? names.join(' | ') : 'string';
+      this._writer.addLine(`export function is${enumName}(value: unknown): value is ${type} {`);
+      this._writer.indent();
+      this._writer.addLine(
+        `return typeof value === 'string' && [${names.join(', ')}].includes(value);`,
+      );
+    } else {
+      this._writer.addLine(`export function is${enumName}(value: unknown): value is ${enumName} {`);
+      this._writer.indent();
+      // open enums accept unknown values, closed enums only their own
+      if (resolveFeatures(this._context.getFeatures(), node.options).enumType === 'CLOSED') {
+        const values = [
+          ...new Set(node.fields.map((field) => parseIntegerLiteral(field.value.value))),
+        ];
+        this._writer.addLine(
+          `return typeof value === 'number' && [${values.join(', ')}].includes(value);`,
+        );
+      } else {
+        const number = this._context.getGlobalName('Number');
+        this._writer.addLine(`return typeof value === 'number' && ${number}.isInteger(value);`);
+      }
+    }
+    this._writer.dedent();
+    this._writer.addLine('}');
+  }
+}
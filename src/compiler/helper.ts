@@ -1,4 +1,53 @@
-import type { FieldNode } from '@/parser/ASTType';
+import {
+  ASTKind,
+  type FieldNode,
+  type FieldOptionNode,
+  type FieldTypeNode,
+  type IdentifierNode,
+  type MessageNode,
+  type OneofNode,
+  type OptionNode,
+} from '@/parser/ASTType';
+import { findOption, getOptionValue, isScalarType, parseIntegerLiteral } from '@/parser/helper';
+import { resolveFieldFeatures, type Features } from '@/resolver/features';
+import { SymbolKind, type TypeSymbol } from '@/resolver/SymbolTable';
+import { RESERVED_KEYWORDS } from './define';
+import type { GenerateOptions } from './Generate';
+
+/** renders the TypeScript name of a message or enum reference */
+export type TypeNameResolver = (node: FieldTypeNode | IdentifierNode, name: string) => string;
+
+export interface TypeContext {
+  options: GenerateOptions;
+  getTypeName: TypeNameResolver;
+  /** reference to a global such as `Map`, `globalThis.Map` when a declaration hides it */
+  getGlobalName: (name: string) => string;
+  /** types the generated code needs from other packages, e.g. `Long` */
+  externalTypes: Set<string>;
+  /** local name of the `Long` class, aliased when a declaration of the file is named `Long` */
+  longName: string;
+}
+
+/** the file being generated, as seen by the emitters of the functions next to its messages */
+export interface EmitContext extends TypeContext {
+  /** symbol of a type reference, `undefined` when it cannot be resolved */
+  getSymbol: (node: FieldTypeNode | IdentifierNode) => TypeSymbol | undefined;
+  /** resolved features of the declaration being generated */
+  getFeatures: () => Features;
+  /** name of a function generated next to a message or enum, e.g. `isFoo` for the prefix `is` */
+  getFunctionName: (node: FieldTypeNode | IdentifierNode, prefix: string) => string | null;
+  /** `Type.VALUE`, the enum object is then used at runtime */
+  getEnumValue: (node: FieldTypeNode | IdentifierNode, type: string, name: string) => string;
+  /** fully qualified proto name of a declaration or reference in this file */
+  getQualifiedName: (name: string, node?: FieldTypeNode | IdentifierNode) => string;
+}
+
+const reservedKeywords = new Set(RESERVED_KEYWORDS);
+
+/** avoid declaring identifiers that are reserved in TypeScript */
+export function getSafeName(name: string): string {
+  return reservedKeywords.has(name) ? `${name}_` : name;
+}
 
 export function getWhitespace(count: number): string {
   let s = '';
@@ -8,20 +57,59 @@ export function getWhitespace(count: number): string {
   return s;
 }
 
-function transformInternalType(type: string): string {
+const LONG_TYPES = new Set(['int64', 'uint64', 'sint64', 'fixed64', 'sfixed64']);
+
+export function isLongType(type: string): boolean {
+  return LONG_TYPES.has(type);
+}
+
+export function getFieldOption(field: FieldNode, name: string): string | null {
+  const value = getOptionValue(field.options, name);
+  return value === null ? null : String(value);
+}
+
+/** representation of a 64-bit integer field, `[jstype = ...]` overrides the `long` option */
+export function getLongRepresentation(field: FieldNode | null, options: GenerateOptions): string {
+  // the JSON mapping always encodes 64-bit integers as strings
+  if (options.jsonMapping) {
+    return 'string';
+  }
+  const jstype = field && getFieldOption(field, 'jstype');
+  if (jstype === 'JS_STRING') {
+    return 'string';
+  }
+  if (jstype === 'JS_NUMBER') {
+    return 'number';
+  }
+  return options.long;
+}
+
+function getLongType(field: FieldNode | null, context: TypeContext): string {
+  const type = getLongRepresentation(field, context.options);
+  if (type === 'Long') {
+    context.externalTypes.add('Long');
+    return context.longName;
+  }
+  return type;
+}
+
+function transformInternalType(
+  type: string,
+  field: FieldNode | null,
+  context: TypeContext,
+): string {
+  if (isLongType(type)) {
+    return getLongType(field, context);
+  }
+
   if (
     type === 'double' ||
     type === 'float' ||
     type === 'int32' ||
-    type === 'int64' ||
     type === 'uint32' ||
-    type === 'uint64' ||
     type === 'sint32' ||
-    type === 'sint64' ||
     type === 'fixed32' ||
-    type === 'fixed64' ||
-    type === 'sfixed32' ||
-    type === 'sfixed64'
+    type === 'sfixed32'
   ) {
     return 'number';
   }
@@ -35,60 +123,322 @@ function transformInternalType(type: string): string {
   }
 
   if (type === 'bytes') {
-    return 'Uint8Array';
+    // the JSON mapping encodes bytes as base64 strings
+    return context.options.jsonMapping ? 'string' : context.getGlobalName('Uint8Array');
+  }
+
+  return type;
+}
+
+function getMapType(context: TypeContext): string {
+  // JSON objects are always plain records
+  return context.options.jsonMapping ? 'Record' : context.options.mapType;
+}
+
+/**
+ * 64-bit keys of a `Map` are decimal strings instead of `Long` objects, which a `Map` compares
+ * by reference
+ */
+export function hasStringLongKeys(field: FieldNode, context: TypeContext): boolean {
+  return (
+    getMapType(context) === 'Map' &&
+    isLongType(field.fieldType.arguments[0].value) &&
+    getLongRepresentation(field, context.options) === 'Long'
+  );
+}
+
+function transformMapKeyType(type: string, field: FieldNode, context: TypeContext): string {
+  if (hasStringLongKeys(field, context)) {
+    return 'string';
   }
+  if (getMapType(context) === 'Map') {
+    return transformInternalType(type, field, context);
+  }
+  // object keys are always strings or numbers, so bool keys fall back to string
+  if (type === 'string' || type === 'bool') {
+    return 'string';
+  }
+  if (isLongType(type)) {
+    return getLongRepresentation(field, context.options) === 'number' ? 'number' : 'string';
+  }
+  return 'number';
+}
 
-  if (type === 'map') {
-    return 'Map';
+/** idiomatic TypeScript types of the well-known types, following their JSON mapping */
+export function getWellKnownType(fullName: string, context: TypeContext): string | null {
+  switch (fullName) {
+    case 'google.protobuf.Timestamp':
+      return context.options.jsonMapping ? 'string' : `string | ${context.getGlobalName('Date')}`;
+    case 'google.protobuf.Duration':
+    case 'google.protobuf.FieldMask':
+      return 'string';
+    case 'google.protobuf.DoubleValue':
+    case 'google.protobuf.FloatValue':
+    case 'google.protobuf.Int32Value':
+    case 'google.protobuf.UInt32Value':
+      return 'number | null';
+    case 'google.protobuf.Int64Value':
+    case 'google.protobuf.UInt64Value':
+      return `${getLongType(null, context)} | null`;
+    case 'google.protobuf.BoolValue':
+      return 'boolean | null';
+    case 'google.protobuf.StringValue':
+      return 'string | null';
+    case 'google.protobuf.BytesValue':
+      return `${context.getGlobalName('Uint8Array')} | null`;
+    case 'google.protobuf.Struct':
+      return `${context.getGlobalName('Record')}<string, unknown>`;
+    case 'google.protobuf.Value':
+      return 'unknown';
+    case 'google.protobuf.ListValue':
+      return 'unknown[]';
+    case 'google.protobuf.NullValue':
+      return 'null';
+    case 'google.protobuf.Any':
+      return "{ '@type': string; [key: string]: unknown }";
+    case 'google.protobuf.Empty':
+      return `${context.getGlobalName('Record')}<string, never>`;
+    default:
+      return null;
   }
+}
 
-  return type;
+export function getMapKeyType(field: FieldNode, context: TypeContext): string {
+  return transformMapKeyType(field.fieldType.arguments[0].value, field, context);
+}
+
+export function getMapValueType(field: FieldNode, context: TypeContext): string {
+  const valueType = field.fieldType.arguments[1];
+  return isScalarType(valueType.value)
+    ? transformInternalType(valueType.value, field, context)
+    : context.getTypeName(valueType, valueType.value);
 }
 
-export function transformFieldType(field: FieldNode): string {
+export function getFieldType(field: FieldNode, context: TypeContext): string {
   const fieldType = field.fieldType;
-  let prefix = ': ';
-  if (field.label?.value === 'optional') {
-    prefix = '?: ';
-  }
   let suffix = '';
   if (field.label?.value === 'repeated') {
     suffix = '[]';
   }
-  if (
-    fieldType.name === 'double' ||
-    fieldType.name === 'float' ||
-    fieldType.name === 'int32' ||
-    fieldType.name === 'int64' ||
-    fieldType.name === 'uint32' ||
-    fieldType.name === 'uint64' ||
-    fieldType.name === 'sint32' ||
-    fieldType.name === 'sint64' ||
-    fieldType.name === 'fixed32' ||
-    fieldType.name === 'fixed64' ||
-    fieldType.name === 'sfixed32' ||
-    fieldType.name === 'sfixed64'
-  ) {
-    return `${prefix}number${suffix}`;
+  if (isScalarType(fieldType.name)) {
+    return `${transformInternalType(fieldType.name, field, context)}${suffix}`;
   }
-  if (fieldType.name === 'bool') {
-    return `${prefix}boolean${suffix}`;
+
+  if (isMapField(field)) {
+    const key = getMapKeyType(field, context);
+    const value = getMapValueType(field, context);
+    return `${context.getGlobalName(getMapType(context))}<${key}, ${value}>${suffix}`;
   }
-  if (fieldType.name === 'string') {
-    return `${prefix}string${suffix}`;
+
+  if (fieldType.arguments.length > 0) {
+    const args = fieldType.arguments.map((item) =>
+      transformInternalType(item.value, null, context),
+    );
+    return `${fieldType.name}<${args.join(', ')}>${suffix}`;
   }
-  if (fieldType.name === 'bytes') {
-    return `${prefix}Uint8Array${suffix}`;
+
+  const typeName = context.getTypeName(fieldType, fieldType.name);
+  if (suffix && typeName.includes('|')) {
+    return `(${typeName})${suffix}`;
   }
+  return `${typeName}${suffix}`;
+}
 
-  if (fieldType.arguments.length > 0) {
-    let name = fieldType.name;
-    if (name === 'map') {
-      name = 'Map';
+export function isMapField(field: FieldNode): boolean {
+  return field.fieldType.name === 'map' && field.fieldType.arguments.length === 2;
+}
+
+/** types that cannot be resolved are assumed to be messages */
+export function isMessageType(
+  node: FieldTypeNode | IdentifierNode,
+  type: string,
+  context: EmitContext,
+): boolean {
+  if (isScalarType(type)) {
+    return false;
+  }
+  return context.getSymbol(node)?.kind !== SymbolKind.ENUM;
+}
+
+export function isMessageField(field: FieldNode, context: EmitContext): boolean {
+  return !isMapField(field) && isMessageType(field.fieldType, field.fieldType.name, context);
+}
+
+/** whether a singular field tracks presence, scalars without presence always have a default value */
+export function hasPresence(field: FieldNode, context: EmitContext): boolean {
+  if (field.label?.value === 'repeated' || isMapField(field)) {
+    return false;
+  }
+  const { fieldPresence } = resolveFieldFeatures(context.getFeatures(), field);
+  if (fieldPresence === 'IMPLICIT') {
+    // message fields track presence even in proto3
+    return isMessageField(field, context);
+  }
+  return fieldPresence === 'EXPLICIT';
+}
+
+/** singular scalars and enums without presence, they are not written when they are zero */
+export function isImplicitField(field: FieldNode, context: EmitContext): boolean {
+  if (field.label?.value === 'repeated' || isMapField(field) || isMessageField(field, context)) {
+    return false;
+  }
+  return resolveFieldFeatures(context.getFeatures(), field).fieldPresence === 'IMPLICIT';
+}
+
+/** whether a field may be absent, canonical JSON leaves out every field that holds its default */
+export function isOptionalField(field: FieldNode, context: EmitContext): boolean {
+  return (
+    context.options.presence === 'all-optional' ||
+    context.options.jsonMapping ||
+    hasPresence(field, context)
+  );
+}
+
+/** members of a oneof are separate optional properties, always in the JSON mapping */
+export function isFlatOneof(options: GenerateOptions): boolean {
+  return options.oneofStyle === 'optional' || options.jsonMapping;
+}
+
+/** fields and oneof members in field number order, the order in which they are written */
+export function getFieldsByNumber(node: MessageNode): [FieldNode, OneofNode | null][] {
+  const fields: [FieldNode, OneofNode | null][] = node.fields.map((field) => [field, null]);
+  for (let i = 0; i < node.oneofs.length; i += 1) {
+    const oneof = node.oneofs[i];
+    for (let j = 0; j < oneof.fields.length; j += 1) {
+      fields.push([oneof.fields[j], oneof]);
     }
-    const args = fieldType.arguments.map((item) => transformInternalType(item.value));
-    return `${prefix}${name}<${args.join(', ')}>${suffix}`;
   }
+  return fields.sort(
+    ([a], [b]) =>
+      parseIntegerLiteral(a.fieldNumber.value) - parseIntegerLiteral(b.fieldNumber.value),
+  );
+}
+
+/** the generated functions work on the decoded objects, not on their JSON form */
+export function isDecodedForm(options: GenerateOptions): boolean {
+  return !options.jsonMapping && options.wellKnownTypes === 'message';
+}
+
+/** property name of a field in the generated interfaces, not quoted */
+export function getRawFieldName(field: FieldNode, options: GenerateOptions): string {
+  if (!options.jsonMapping) {
+    return field.name.value;
+  }
+  return getFieldOption(field, 'json_name') ?? toJsonName(field.name.value);
+}
+
+export function isUnsignedLong(type: string): boolean {
+  return type === 'uint64' || type === 'fixed64';
+}
 
-  return `${prefix}${fieldType.name}${suffix}`;
+/** zero value of a scalar or enum type, as a TypeScript expression */
+export function getZeroValue(type: string, field: FieldNode, context: TypeContext): string {
+  if (isLongType(type)) {
+    switch (getLongRepresentation(field, context.options)) {
+      case 'string':
+        return "'0'";
+      case 'bigint':
+        return `${context.getGlobalName('BigInt')}(0)`;
+      case 'Long':
+        return `${context.longName}.${isUnsignedLong(type) ? 'UZERO' : 'ZERO'}`;
+      default:
+        return '0';
+    }
+  }
+  switch (type) {
+    case 'bool':
+      return 'false';
+    case 'string':
+      return "''";
+    case 'bytes':
+      return `new ${context.getGlobalName('Uint8Array')}(0)`;
+    default:
+      return '0';
+  }
+}
+
+/** property type of a field, `optional` fields may be absent */
+export function transformFieldType(
+  field: FieldNode,
+  optional: boolean,
+  context: TypeContext,
+): string {
+  return `${optional ? '?: ' : ': '}${getFieldType(field, context)}`;
+}
+
+/** value of `[default = ...]` as written in TypeScript, enum values are kept as their names */
+export function getDefaultValue(field: FieldNode): string | null {
+  const option = findOption(field.options, 'default');
+  if (option === null || option.value.type === ASTKind.AGGREGATE) {
+    return null;
+  }
+  if (option.value.type === ASTKind.STRING_LITERAL) {
+    return JSON.stringify(option.value.value);
+  }
+  if (option.value.type === ASTKind.NUMBER_LITERAL) {
+    return option.value.value.replace(/^([-+]?)inf$/i, '$1Infinity').replace(/^[-+]?nan$/i, 'NaN');
+  }
+  return String(option.value.value);
+}
+
+/** bytes of the `[default = ...]` string of a field, escapes such as `\377` are single bytes */
+export function getDefaultBytes(field: FieldNode): Uint8Array | null {
+  const option = findOption(field.options, 'default');
+  return option?.value.type === ASTKind.STRING_LITERAL ? option.value.bytes : null;
+}
+
+export function isDeprecated(options: (OptionNode | FieldOptionNode)[]): boolean {
+  return getOptionValue(options, 'deprecated') === true;
+}
+
+/** JSON name of a field as computed by protoc, e.g. `user_id` becomes `userId` */
+export function toJsonName(name: string): string {
+  return name.replace(/_+([a-zA-Z0-9]?)/g, (_, char: string) => char.toUpperCase());
+}
+
+/** quote property names that are not valid identifiers */
+export function getPropertyName(name: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? name : `'${name}'`;
+}
+
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+  const parts = path.replace(/\\/g, '/').split('/');
+  for (let i = 0; i < parts.length; i += 1) {
+    const part = parts[i];
+    if (part === '' || part === '.') {
+      continue;
+    }
+    if (part === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+    } else {
+      segments.push(part);
+    }
+  }
+  return segments.join('/');
+}
+
+export function joinPath(...paths: string[]): string {
+  return normalizePath(paths.filter((path) => path !== '').join('/'));
+}
+
+/** module specifier for importing the output of `to` from the output of `from` */
+export function getRelativeModulePath(from: string, to: string): string {
+  const fromSegments = normalizePath(from).split('/').slice(0, -1);
+  const toSegments = normalizePath(to).split('/');
+  let common = 0;
+  while (
+    common < fromSegments.length &&
+    common < toSegments.length - 1 &&
+    fromSegments[common] === toSegments[common]
+  ) {
+    common += 1;
+  }
+  const segments: string[] = [];
+  for (let i = common; i < fromSegments.length; i += 1) {
+    segments.push('..');
+  }
+  segments.push(...toSegments.slice(common));
+  const path = segments.join('/').replace(/\.proto$/, '');
+  return path.startsWith('.') ? path : `./${path}`;
 }
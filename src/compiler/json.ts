@@ -0,0 +1,500 @@
+import type {
+  FieldNode,
+  FieldTypeNode,
+  IdentifierNode,
+  MessageNode,
+  OneofNode,
+} from '@/parser/ASTType';
+import { isScalarType } from '@/parser/helper';
+import { getNonZeroCondition } from './binary';
+import { Emitter } from './Emitter';
+import {
+  getFieldOption,
+  getFieldsByNumber,
+  getLongRepresentation,
+  hasStringLongKeys,
+  isImplicitField,
+  isLongType,
+  isMapField,
+  isMessageType,
+  isOptionalField,
+  isUnsignedLong,
+  toJsonName,
+  type TypeContext,
+} from './helper';
+import { JSON_RUNTIME_DEPENDENCIES } from './runtime';
+
+/** well-known types whose JSON form is the JSON form of their only field */
+export const JSON_WRAPPER_TYPES: Set<string> = new Set([
+  'google.protobuf.DoubleValue',
+  'google.protobuf.FloatValue',
+  'google.protobuf.Int64Value',
+  'google.protobuf.UInt64Value',
+  'google.protobuf.Int32Value',
+  'google.protobuf.UInt32Value',
+  'google.protobuf.BoolValue',
+  'google.protobuf.StringValue',
+  'google.protobuf.BytesValue',
+  'google.protobuf.Struct',
+  'google.protobuf.ListValue',
+]);
+
+/** well-known types written as strings by a helper taking `seconds` and `nanos` */
+export const JSON_TIME_TYPES: Record<string, string> = {
+  'google.protobuf.Timestamp': 'timestamp',
+  'google.protobuf.Duration': 'duration',
+};
+
+/** condition on the JSON value `json` that selects a member of `google.protobuf.Value` */
+export const JSON_VALUE_KINDS: Record<string, string> = {
+  null_value: 'json === null',
+  number_value: "typeof json === 'number'",
+  string_value: "typeof json === 'string'",
+  bool_value: "typeof json === 'boolean'",
+  list_value: 'Array.isArray(json)',
+};
+
+/** `int32`, `uint32`, `int64` or `uint64`, the range of an integer type */
+export function getIntegerRange(type: string): string {
+  const unsigned = type.startsWith('uint') || type.startsWith('fixed');
+  return `${unsigned ? 'uint' : 'int'}${isLongType(type) ? 64 : 32}`;
+}
+
+/** 64-bit integer in its TypeScript representation from the decimal string `value` */
+export function getLongFromString(
+  type: string,
+  field: FieldNode,
+  context: TypeContext,
+  value: string,
+): string {
+  switch (getLongRepresentation(field, context.options)) {
+    case 'string':
+      return value;
+    case 'bigint':
+      return `${context.getGlobalName('BigInt')}(${value})`;
+    case 'Long':
+      return `${context.longName}.fromString(${value}, ${isUnsignedLong(type)})`;
+    default:
+      return `${context.getGlobalName('Number')}(${value})`;
+  }
+}
+
+/** key of a `Map` from the string `key` of a JSON object */
+export function getMapKeyFromJSON(
+  type: string,
+  field: FieldNode,
+  context: TypeContext,
+  key: string,
+): string {
+  if (type === 'bool') {
+    return `${key} === 'true'`;
+  }
+  if (type === 'string') {
+    return key;
+  }
+  return isLongType(type)
+    ? getLongFromString(type, field, context, key)
+    : `${context.getGlobalName('Number')}(${key})`;
+}
+
+/** `toJSON` and `fromJSON` functions of the canonical proto3 JSON form */
+export class JsonEmitter extends Emitter {
+  /** helpers of `JSON_RUNTIME` used by the generated code */
+  helpers: Set<string> = new Set();
+  /** the `toJSON` function being generated reads its `options` */
+  private _usesJsonOptions: boolean = false;
+
+  /** name of a helper of `JSON_RUNTIME`, copied into the output with the helpers it uses */
+  private _useJsonHelper(name: string): string {
+    if (!this.helpers.has(name)) {
+      this.helpers.add(name);
+      const dependencies = JSON_RUNTIME_DEPENDENCIES[name] ?? [];
+      for (let i = 0; i < dependencies.length; i += 1) {
+        this._useJsonHelper(dependencies[i]);
+      }
+    }
+    return `$${name}`;
+  }
+
+  /** decimal string of the JSON integer `value`, throws when it is outside the range of `type` */
+  private _getJsonInteger(type: string, value: string): string {
+    return `${this._useJsonHelper('jsonInteger')}(${value}, '${getIntegerRange(type)}')`;
+  }
+
+  /** name of a field in JSON, from the `json_name` option or in camelCase */
+  private _getJsonName(field: FieldNode): string {
+    return getFieldOption(field, 'json_name') ?? toJsonName(field.name.value);
+  }
+
+  /** `message.name`, falling back to the default value when the property is optional */
+  private _getFieldValue(field: FieldNode): string {
+    const value = `message.${field.name.value}`;
+    const defaultValue = this._getDefaultValue(field);
+    if (!isOptionalField(field, this._context) || defaultValue === null) {
+      return value;
+    }
+    return `${value} ?? ${defaultValue}`;
+  }
+
+  /** well-known types with their own JSON form, `null` for any other message */
+  private _getJsonKind(
+    node: MessageNode,
+    fullName: string,
+  ): 'time' | 'wrapper' | 'fieldMask' | 'value' | null {
+    if (Object.hasOwn(JSON_TIME_TYPES, fullName) && node.fields.length === 2) {
+      return 'time';
+    }
+    if (JSON_WRAPPER_TYPES.has(fullName) && node.fields.length === 1) {
+      return 'wrapper';
+    }
+    if (fullName === 'google.protobuf.FieldMask' && node.fields.length === 1) {
+      return 'fieldMask';
+    }
+    if (fullName === 'google.protobuf.Value' && node.oneofs.length === 1) {
+      return 'value';
+    }
+    return null;
+  }
+
+  /** JSON value of `value`, a scalar, enum or message of the type `type` */
+  private _getToJSONValue(node: FieldTypeNode | IdentifierNode, type: string, value: string) {
+    if (isMessageType(node, type, this._context)) {
+      this._usesJsonOptions = true;
+      return `${this._context.getTypeName(node, type)}.toJSON(${value}, options)`;
+    }
+    if (!isScalarType(type)) {
+      if (this._context.getQualifiedName(type, node) === 'google.protobuf.NullValue') {
+        return 'null';
+      }
+      return `${this._useJsonHelper('enumToJSON')}(${this._context.getTypeName(node, type)}, ${value})`;
+    }
+    if (isLongType(type)) {
+      return `${this._context.getGlobalName('String')}(${value})`;
+    }
+    switch (type) {
+      case 'float':
+      case 'double':
+        return `${this._useJsonHelper('toJSONNumber')}(${value})`;
+      case 'bytes':
+        return `${this._useJsonHelper('toBase64')}(${value})`;
+      default:
+        return value;
+    }
+  }
+
+  /** value of the type `type` read from the JSON value `value` */
+  private _getFromJSONValue(
+    field: FieldNode,
+    node: FieldTypeNode | IdentifierNode,
+    type: string,
+    value: string,
+  ): string {
+    if (isMessageType(node, type, this._context)) {
+      return `${this._context.getTypeName(node, type)}.fromJSON(${value})`;
+    }
+    if (!isScalarType(type)) {
+      const enumFromJSON = this._useJsonHelper('enumFromJSON');
+      const name = this._context.getQualifiedName(type, node);
+      return `${enumFromJSON}(${this._context.getTypeName(node, type)}, ${value}, '${name}')`;
+    }
+    if (isLongType(type)) {
+      return getLongFromString(type, field, this._context, this._getJsonInteger(type, value));
+    }
+    switch (type) {
+      case 'float':
+      case 'double':
+        return `${this._useJsonHelper('jsonNumber')}(${value})`;
+      case 'bool':
+        return `${this._useJsonHelper('jsonBool')}(${value})`;
+      case 'string':
+        return `${this._useJsonHelper('jsonString')}(${value})`;
+      case 'bytes':
+        return `${this._useJsonHelper('fromBase64')}(${value})`;
+      default:
+        return `${this._context.getGlobalName('Number')}(${this._getJsonInteger(type, value)})`;
+    }
+  }
+
+  /** JSON value of a map, repeated or singular field holding `value` */
+  private _getToJSONFieldValue(field: FieldNode, value: string): string {
+    if (isMapField(field)) {
+      const valueType = field.fieldType.arguments[1];
+      const item = this._getToJSONValue(valueType, valueType.value, 'item');
+      const object = this._context.getGlobalName('Object');
+      if (this._options.mapType === 'Record') {
+        return `${object}.fromEntries(${object}.entries(${value}).map(([key, item]) => [key, ${item}]))`;
+      }
+      const entries = `${this._context.getGlobalName('Array')}.from(${value}, ([key, item]) => [${this._context.getGlobalName('String')}(key), ${item}])`;
+      return `${object}.fromEntries(${entries})`;
+    }
+    if (field.label?.value === 'repeated') {
+      const item = this._getToJSONValue(field.fieldType, field.fieldType.name, 'item');
+      return item === 'item' ? `[...${value}]` : `${value}.map((item) => ${item})`;
+    }
+    return this._getToJSONValue(field.fieldType, field.fieldType.name, value);
+  }
+
+  /** value of a map, repeated or singular field read from the JSON value `value` */
+  private _getFromJSONFieldValue(field: FieldNode, value: string): string {
+    if (isMapField(field)) {
+      const [keyType, valueType] = field.fieldType.arguments;
+      const object = `${this._useJsonHelper('jsonObject')}(${value}, '${field.name.value}')`;
+      const item = this._getFromJSONValue(field, valueType, valueType.value, 'item');
+      const entries = `${this._context.getGlobalName('Object')}.entries(${object})`;
+      if (this._options.mapType === 'Record') {
+        return `${this._context.getGlobalName('Object')}.fromEntries(${entries}.map(([key, item]) => [key, ${item}]))`;
+      }
+      const key = hasStringLongKeys(field, this._context)
+        ? this._getJsonInteger(keyType.value, 'key')
+        : getMapKeyFromJSON(
+            keyType.value,
+            field,
+            this._context,
+            keyType.value === 'bool' || keyType.value === 'string'
+              ? 'key'
+              : this._getJsonInteger(keyType.value, 'key'),
+          );
+      return `new ${this._context.getGlobalName('Map')}(${entries}.map(([key, item]) => [${key}, ${item}] as const))`;
+    }
+    if (field.label?.value === 'repeated') {
+      const item = this._getFromJSONValue(field, field.fieldType, field.fieldType.name, 'item');
+      return `${this._useJsonHelper('jsonArray')}(${value}).map((item) => ${item})`;
+    }
+    return this._getFromJSONValue(field, field.fieldType, field.fieldType.name, value);
+  }
+
+  private _generateFieldToJSON(field: FieldNode, oneof: OneofNode | null) {
+    const key = `json['${this._getJsonName(field)}']`;
+    if (oneof !== null && this._options.oneofStyle !== 'optional') {
+      const value = `message.${oneof.name.value}.${field.name.value}`;
+      this._writer.block([this._getOneofCondition(oneof, field)], () => {
+        this._writer.addLine(
+          `${key} = ${this._getToJSONValue(field.fieldType, field.fieldType.name, value)};`,
+        );
+      });
+      return;
+    }
+
+    const value = `message.${field.name.value}`;
+    const conditions =
+      isOptionalField(field, this._context) || oneof !== null ? [`${value} !== undefined`] : [];
+    // fields without presence are only written when they are not empty or zero
+    let nonEmpty: string | null = null;
+    if (isMapField(field)) {
+      nonEmpty =
+        this._options.mapType === 'Record'
+          ? `${this._context.getGlobalName('Object')}.keys(${value}).length > 0`
+          : `${value}.size > 0`;
+    } else if (field.label?.value === 'repeated') {
+      nonEmpty = `${value}.length > 0`;
+    } else if (oneof === null && isImplicitField(field, this._context)) {
+      nonEmpty = getNonZeroCondition(field.fieldType.name, field, this._context, value);
+    }
+    if (nonEmpty !== null) {
+      this._usesJsonOptions = true;
+      const condition = `options.emitDefaults || ${nonEmpty}`;
+      conditions.push(conditions.length > 0 ? `(${condition})` : condition);
+    }
+    this._writer.block(conditions, () => {
+      this._writer.addLine(`${key} = ${this._getToJSONFieldValue(field, value)};`);
+    });
+  }
+
+  generateToJSON(node: MessageNode, messageName: string, fullName: string): void {
+    const kind = this._getJsonKind(node, fullName);
+    const signature = this._writer.lines.length;
+    this._writer.lines.push('');
+    this._usesJsonOptions = false;
+    this._writer.indent();
+    if (kind === 'time') {
+      const toJSON = this._useJsonHelper(`${JSON_TIME_TYPES[fullName]}ToJSON`);
+      const seconds = this._getFieldValue(node.fields[0]);
+      this._writer.addLine(
+        `return ${toJSON}(Number(${seconds}), ${this._getFieldValue(node.fields[1])});`,
+      );
+    } else if (kind === 'fieldMask') {
+      const toJSON = this._useJsonHelper('fieldMaskToJSON');
+      this._writer.addLine(`return ${toJSON}(${this._getFieldValue(node.fields[0])});`);
+    } else if (kind === 'wrapper') {
+      const field = node.fields[0];
+      const value = this._getFieldValue(field);
+      // `.map` of a list falling back to `[]` needs parentheses
+      const operand =
+        field.label?.value === 'repeated' && value.includes(' ?? ') ? `(${value})` : value;
+      this._writer.addLine(`return ${this._getToJSONFieldValue(field, operand)};`);
+    } else if (kind === 'value') {
+      const oneof = node.oneofs[0];
+      for (let i = 0; i < oneof.fields.length; i += 1) {
+        const field = oneof.fields[i];
+        const optional = this._options.oneofStyle === 'optional';
+        const value = optional
+          ? `message.${field.name.value}`
+          : `message.${oneof.name.value}.${field.name.value}`;
+        const condition = optional
+          ? `${value} !== undefined`
+          : this._getOneofCondition(oneof, field);
+        this._writer.block([condition], () => {
+          this._writer.addLine(
+            `return ${this._getToJSONValue(field.fieldType, field.fieldType.name, value)};`,
+          );
+        });
+      }
+      this._writer.addLine('return null;');
+    } else {
+      this._writer.addLine(
+        `const json: ${this._context.getGlobalName('Record')}<string, unknown> = {};`,
+      );
+      const fields = getFieldsByNumber(node);
+      for (let i = 0; i < fields.length; i += 1) {
+        this._generateFieldToJSON(fields[i][0], fields[i][1]);
+      }
+      this._writer.addLine('return json;');
+    }
+    this._writer.dedent();
+    this._writer.addLine('}');
+
+    // unused parameters are prefixed with `_`, for projects with `noUnusedParameters`
+    const message = kind !== null || getFieldsByNumber(node).length > 0 ? 'message' : '_message';
+    const options = this._usesJsonOptions ? 'options' : '_options';
+    const optionsType = this._useJsonHelper('JsonWriteOptions');
+    this._writer.lines[signature] =
+      `${this._writer.indentation}export function toJSON(${message}: ${messageName}, ${options}: ${optionsType} = {}): unknown {`;
+  }
+
+  /** `google.protobuf.Value` from the type of a JSON value */
+  private _generateValueFromJSON(oneof: OneofNode) {
+    const getValue = (field: FieldNode, value: string) =>
+      this._options.oneofStyle === 'optional'
+        ? `{ ${field.name.value}: ${value} }`
+        : `{ ${oneof.name.value}: ${this._getOneofValue(field, value)} }`;
+    let fallback: FieldNode | null = null;
+    for (let i = 0; i < oneof.fields.length; i += 1) {
+      const field = oneof.fields[i];
+      if (!Object.hasOwn(JSON_VALUE_KINDS, field.name.value)) {
+        fallback = field;
+        continue;
+      }
+      const value =
+        field.name.value === 'null_value'
+          ? '0'
+          : this._getFromJSONValue(field, field.fieldType, field.fieldType.name, 'json');
+      this._writer.block([JSON_VALUE_KINDS[field.name.value]], () => {
+        this._writer.addLine(`return ${getValue(field, value)};`);
+      });
+    }
+    if (fallback !== null) {
+      const value = this._getFromJSONValue(
+        fallback,
+        fallback.fieldType,
+        fallback.fieldType.name,
+        'json',
+      );
+      this._writer.addLine(`return ${getValue(fallback, value)};`);
+    } else {
+      this._writer.addLine(
+        `throw new ${this._context.getGlobalName('TypeError')}('Expected a JSON value');`,
+      );
+    }
+  }
+
+  /** the JSON of a oneof may only hold one of its members, `field` is read after the others */
+  private _generateOneofConflict(field: FieldNode, oneof: OneofNode) {
+    let condition: string;
+    if (this._options.oneofStyle === 'optional') {
+      const members = oneof.fields.filter((item) => item !== field);
+      if (members.length === 0) {
+        return;
+      }
+      condition = members.map((item) => `message.${item.name.value} !== undefined`).join(' || ');
+    } else if (this._options.oneofStyle === 'kind') {
+      condition = `message.${oneof.name.value}.oneofKind !== undefined`;
+    } else {
+      condition = `message.${oneof.name.value} !== undefined`;
+    }
+    this._writer.block([condition], () => {
+      this._writer.addLine(
+        `throw new ${this._context.getGlobalName('TypeError')}('Expected a single field of oneof ${oneof.name.value}');`,
+      );
+    });
+  }
+
+  private _generateFieldFromJSON(field: FieldNode, oneof: OneofNode | null) {
+    const name = field.name.value;
+    const jsonName = this._getJsonName(field);
+    // null is the default value of any field, except for `google.protobuf.Value` where it is a value
+    const isValue =
+      field.label?.value !== 'repeated' &&
+      !isMapField(field) &&
+      this._context.getQualifiedName(field.fieldType.name, field.fieldType) ===
+        'google.protobuf.Value';
+    // both the JSON name and the proto name are accepted
+    if (jsonName === name) {
+      this._writer.addLine(`value = object['${name}'];`);
+    } else if (isValue) {
+      this._writer.addLine(
+        `value = '${jsonName}' in object ? object['${jsonName}'] : object['${name}'];`,
+      );
+    } else {
+      this._writer.addLine(`value = object['${jsonName}'] ?? object['${name}'];`);
+    }
+    const conditions = isValue
+      ? ['value !== undefined']
+      : ['value !== undefined', 'value !== null'];
+    const value = this._getFromJSONFieldValue(field, 'value');
+    this._writer.block(conditions, () => {
+      if (oneof !== null) {
+        this._generateOneofConflict(field, oneof);
+      }
+      if (oneof === null || this._options.oneofStyle === 'optional') {
+        this._writer.addLine(`message.${name} = ${value};`);
+      } else {
+        this._writer.addLine(`message.${oneof.name.value} = ${this._getOneofValue(field, value)};`);
+      }
+    });
+  }
+
+  generateFromJSON(node: MessageNode, messageName: string, fullName: string): void {
+    const kind = this._getJsonKind(node, fullName);
+    this._writer.addLine(`export function fromJSON(json: unknown): ${messageName} {`);
+    this._writer.indent();
+    if (kind === 'time') {
+      const fromJSON = this._useJsonHelper(`${JSON_TIME_TYPES[fullName]}FromJSON`);
+      const [seconds, nanos] = node.fields;
+      const value = getLongFromString(
+        seconds.fieldType.name,
+        seconds,
+        this._context,
+        'String(seconds)',
+      );
+      this._writer.addLine(`const [seconds, nanos] = ${fromJSON}(json);`);
+      const nanosValue = nanos.name.value === 'nanos' ? 'nanos' : `${nanos.name.value}: nanos`;
+      this._writer.addLine(`return { ${seconds.name.value}: ${value}, ${nanosValue} };`);
+    } else if (kind === 'fieldMask') {
+      const fromJSON = this._useJsonHelper('fieldMaskFromJSON');
+      this._writer.addLine(`return { ${node.fields[0].name.value}: ${fromJSON}(json) };`);
+    } else if (kind === 'wrapper') {
+      const value = this._getFromJSONFieldValue(node.fields[0], 'json');
+      this._writer.addLine(`return { ${node.fields[0].name.value}: ${value} };`);
+    } else if (kind === 'value') {
+      this._generateValueFromJSON(node.oneofs[0]);
+    } else {
+      const fields = getFieldsByNumber(node);
+      const jsonObject = this._useJsonHelper('jsonObject');
+      this._writer.addLine(
+        fields.length > 0
+          ? `const object = ${jsonObject}(json, '${fullName}');`
+          : `${jsonObject}(json, '${fullName}');`,
+      );
+      this._generateMessageDefaults(node, messageName);
+      if (fields.length > 0) {
+        this._writer.addLine('let value: unknown;');
+      }
+      for (let i = 0; i < fields.length; i += 1) {
+        this._generateFieldFromJSON(fields[i][0], fields[i][1]);
+      }
+      this._writer.addLine('return message;');
+    }
+    this._writer.dedent();
+    this._writer.addLine('}');
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * helpers of the generated `encode` and `decode` functions, they are copied into every generated
+ * file with messages so that the output does not depend on a runtime package. Helper names start
+ * with `$`, which proto identifiers cannot contain, so that they never collide with a declaration
+ */
+export const BINARY_RUNTIME: string = `
+/** writer of the protobuf binary format */
+class $BinaryWriter {
+  private buffer: number[] = [];
+
+  get length(): number {
+    return this.buffer.length;
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.buffer);
+  }
+
+  tag(fieldNumber: number, wireType: number): this {
+    return this.uint32(fieldNumber * 8 + wireType);
+  }
+
+  raw(value: Uint8Array): this {
+    for (let i = 0; i < value.length; i += 1) {
+      this.buffer.push(value[i]);
+    }
+    return this;
+  }
+
+  uint32(value: number): this {
+    let rest = value >>> 0;
+    while (rest > 127) {
+      this.buffer.push((rest & 127) | 128);
+      rest >>>= 7;
+    }
+    this.buffer.push(rest);
+    return this;
+  }
+
+  int32(value: number): this {
+    // negative values are sign extended to 64 bits
+    return value < 0 ? this.uint64(value) : this.uint32(value);
+  }
+
+  sint32(value: number): this {
+    return this.uint32((value << 1) ^ (value >> 31));
+  }
+
+  uint64(value: bigint | number | string | { toString(): string }): this {
+    let rest = BigInt.asUintN(64, $BinaryWriter.toBigInt(value));
+    while (rest > BigInt(127)) {
+      this.buffer.push(Number(rest & BigInt(127)) | 128);
+      rest >>= BigInt(7);
+    }
+    this.buffer.push(Number(rest));
+    return this;
+  }
+
+  int64(value: bigint | number | string | { toString(): string }): this {
+    return this.uint64(value);
+  }
+
+  sint64(value: bigint | number | string | { toString(): string }): this {
+    const n = BigInt.asIntN(64, $BinaryWriter.toBigInt(value));
+    return this.uint64((n << BigInt(1)) ^ (n >> BigInt(63)));
+  }
+
+  bool(value: boolean): this {
+    return this.uint32(value ? 1 : 0);
+  }
+
+  fixed32(value: number): this {
+    return this.fixed(4, (view) => view.setUint32(0, value, true));
+  }
+
+  sfixed32(value: number): this {
+    return this.fixed(4, (view) => view.setInt32(0, value, true));
+  }
+
+  float(value: number): this {
+    return this.fixed(4, (view) => view.setFloat32(0, value, true));
+  }
+
+  fixed64(value: bigint | number | string | { toString(): string }): this {
+    const n = BigInt.asUintN(64, $BinaryWriter.toBigInt(value));
+    return this.fixed(8, (view) => view.setBigUint64(0, n, true));
+  }
+
+  sfixed64(value: bigint | number | string | { toString(): string }): this {
+    const n = BigInt.asIntN(64, $BinaryWriter.toBigInt(value));
+    return this.fixed(8, (view) => view.setBigInt64(0, n, true));
+  }
+
+  double(value: number): this {
+    return this.fixed(8, (view) => view.setFloat64(0, value, true));
+  }
+
+  bytes(value: Uint8Array): this {
+    return this.uint32(value.length).raw(value);
+  }
+
+  string(value: string): this {
+    return this.bytes(new TextEncoder().encode(value));
+  }
+
+  private fixed(size: number, write: (view: DataView) => void): this {
+    const view = new DataView(new ArrayBuffer(size));
+    write(view);
+    return this.raw(new Uint8Array(view.buffer));
+  }
+
+  private static toBigInt(value: bigint | number | string | { toString(): string }): bigint {
+    if (typeof value === 'bigint') {
+      return value;
+    }
+    return BigInt(typeof value === 'number' ? Math.trunc(value) : value.toString());
+  }
+}
+
+/** reader of the protobuf binary format */
+class $BinaryReader {
+  readonly buf: Uint8Array;
+  pos: number = 0;
+  private view: DataView;
+
+  constructor(buf: Uint8Array) {
+    this.buf = buf;
+    this.view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  }
+
+  get done(): boolean {
+    return this.pos >= this.buf.length;
+  }
+
+  tag(): [number, number] {
+    const tag = this.uint32();
+    return [tag >>> 3, tag & 7];
+  }
+
+  /** skip a value of an unknown field, its tag has been read */
+  skip(wireType: number, fieldNumber: number): void {
+    switch (wireType) {
+      case 0:
+        this.uint32();
+        break;
+      case 1:
+        this.advance(8);
+        break;
+      case 2:
+        this.bytes();
+        break;
+      case 3:
+        this.group(fieldNumber);
+        break;
+      case 5:
+        this.advance(4);
+        break;
+      default:
+        throw new Error('Invalid wire type ' + wireType + ' in protobuf input');
+    }
+  }
+
+  /** content of a group whose start tag has been read, the end tag is consumed */
+  group(fieldNumber: number): Uint8Array {
+    const start = this.pos;
+    for (;;) {
+      const end = this.pos;
+      const [number, wireType] = this.tag();
+      if (wireType === 4) {
+        if (number !== fieldNumber) {
+          throw new Error('Unexpected end group tag in protobuf input');
+        }
+        return this.buf.subarray(start, end);
+      }
+      this.skip(wireType, number);
+    }
+  }
+
+  uint32(): number {
+    let result = 0;
+    for (let shift = 0; shift < 70; shift += 7) {
+      const byte = this.buf[this.advance(1)];
+      if (shift < 32) {
+        result |= (byte & 127) << shift;
+      }
+      if (byte < 128) {
+        return result >>> 0;
+      }
+    }
+    throw new Error('Invalid varint in protobuf input');
+  }
+
+  int32(): number {
+    return this.uint32() | 0;
+  }
+
+  sint32(): number {
+    const value = this.uint32();
+    return (value >>> 1) ^ -(value & 1);
+  }
+
+  uint64(): bigint {
+    let result = BigInt(0);
+    for (let shift = 0; shift < 70; shift += 7) {
+      const byte = this.buf[this.advance(1)];
+      result |= BigInt(byte & 127) << BigInt(shift);
+      if (byte < 128) {
+        return BigInt.asUintN(64, result);
+      }
+    }
+    throw new Error('Invalid varint in protobuf input');
+  }
+
+  int64(): bigint {
+    return BigInt.asIntN(64, this.uint64());
+  }
+
+  sint64(): bigint {
+    const value = this.uint64();
+    return (value >> BigInt(1)) ^ -(value & BigInt(1));
+  }
+
+  bool(): boolean {
+    return this.uint64() !== BigInt(0);
+  }
+
+  fixed32(): number {
+    return this.view.getUint32(this.advance(4), true);
+  }
+
+  sfixed32(): number {
+    return this.view.getInt32(this.advance(4), true);
+  }
+
+  float(): number {
+    return this.view.getFloat32(this.advance(4), true);
+  }
+
+  fixed64(): bigint {
+    return this.view.getBigUint64(this.advance(8), true);
+  }
+
+  sfixed64(): bigint {
+    return this.view.getBigInt64(this.advance(8), true);
+  }
+
+  double(): number {
+    return this.view.getFloat64(this.advance(8), true);
+  }
+
+  bytes(): Uint8Array {
+    const length = this.uint32();
+    const start = this.advance(length);
+    return this.buf.subarray(start, this.pos);
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytes());
+  }
+
+  /** move past \`count\` bytes and return the position of the first one */
+  private advance(count: number): number {
+    const start = this.pos;
+    this.pos += count;
+    if (this.pos > this.buf.length) {
+      throw new Error('Unexpected end of protobuf input');
+    }
+    return start;
+  }
+}
+`;
+
+/**
+ * helpers of the generated `toJSON` and `fromJSON` functions, keyed by their name, only the
+ * helpers used by a file are copied into it
+ */
+export const JSON_RUNTIME: Record<string, string> = {
+  JsonWriteOptions: `
+/** options of the generated \`toJSON\` functions */
+interface $JsonWriteOptions {
+  /** also write fields that hold their default value, such as zero, empty lists and empty maps */
+  emitDefaults?: boolean;
+}`,
+  jsonObject: `
+function $jsonObject(value: unknown, name: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TypeError('Expected a JSON object for ' + name);
+  }
+  return value as Record<string, unknown>;
+}`,
+  jsonArray: `
+function $jsonArray(value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new TypeError('Expected a JSON array');
+  }
+  return value;
+}`,
+  jsonString: `
+function $jsonString(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new TypeError('Expected a JSON string');
+  }
+  return value;
+}`,
+  jsonBool: `
+function $jsonBool(value: unknown): boolean {
+  if (typeof value !== 'boolean') {
+    throw new TypeError('Expected a JSON boolean');
+  }
+  return value;
+}`,
+  jsonNumber: `
+/** floating point numbers, also accepted as strings such as \`'1.5'\`, \`'NaN'\` or \`'-Infinity'\` */
+function $jsonNumber(value: unknown): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    if (!Number.isNaN(number) || value === 'NaN') {
+      return number;
+    }
+  }
+  throw new TypeError('Expected a JSON number');
+}`,
+  INTEGER_RANGES: `
+/** smallest and largest value of the integer types */
+const $INTEGER_RANGES: Record<string, [bigint, bigint]> = {
+  int32: [BigInt('-2147483648'), BigInt('2147483647')],
+  uint32: [BigInt(0), BigInt('4294967295')],
+  int64: [BigInt('-9223372036854775808'), BigInt('9223372036854775807')],
+  uint64: [BigInt(0), BigInt('18446744073709551615')],
+};`,
+  jsonInteger: `
+/** decimal string of an integer given as a number or as a string, in the range of \`type\` */
+function $jsonInteger(value: unknown, type: string): string {
+  let integer: bigint;
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    integer = BigInt(value);
+  } else if (typeof value === 'string' && /^-?\\d+$/.test(value)) {
+    integer = BigInt(value);
+  } else {
+    throw new TypeError('Expected an integer');
+  }
+  const [min, max] = $INTEGER_RANGES[type];
+  if (integer < min || integer > max) {
+    throw new TypeError('Expected an integer in the range of ' + type);
+  }
+  return integer.toString();
+}`,
+  toJSONNumber: `
+/** NaN and infinite values are written as strings */
+function $toJSONNumber(value: number): number | string {
+  return Number.isFinite(value) ? value : String(value);
+}`,
+  BASE64: `
+const $BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';`,
+  toBase64: `
+function $toBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result += $BASE64[chunk >> 18] + $BASE64[(chunk >> 12) & 63];
+    result += i + 1 < bytes.length ? $BASE64[(chunk >> 6) & 63] : '=';
+    result += i + 2 < bytes.length ? $BASE64[chunk & 63] : '=';
+  }
+  return result;
+}`,
+  fromBase64: `
+/** standard and URL-safe base64, with or without padding */
+function $fromBase64(value: unknown): Uint8Array {
+  const text = $jsonString(value).replace(/=+$/, '');
+  const bytes: number[] = [];
+  let chunk = 0;
+  let bits = 0;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i] === '-' ? '+' : text[i] === '_' ? '/' : text[i];
+    const index = $BASE64.indexOf(char);
+    if (index < 0) {
+      throw new TypeError('Expected a base64 string');
+    }
+    chunk = ((chunk << 6) | index) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((chunk >> bits) & 255);
+    }
+  }
+  return Uint8Array.from(bytes);
+}`,
+  enumToJSON: `
+/** name of an enum value, values unknown to the schema are written as numbers */
+function $enumToJSON(values: Record<number, string>, value: number): string | number {
+  return values[value] ?? value;
+}`,
+  enumFromJSON: `
+function $enumFromJSON(values: Record<string, string | number>, value: unknown, name: string): number {
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return value;
+  }
+  const number = typeof value === 'string' ? values[value] : undefined;
+  if (typeof number !== 'number') {
+    throw new TypeError('Expected a value of ' + name);
+  }
+  return number;
+}`,
+  jsonFraction: `
+/** fraction of a second with 0, 3, 6 or 9 digits, as protoc writes it */
+function $jsonFraction(nanos: number): string {
+  if (nanos === 0) {
+    return '';
+  }
+  const digits = String(nanos).padStart(9, '0');
+  if (nanos % 1000000 === 0) {
+    return '.' + digits.slice(0, 3);
+  }
+  return nanos % 1000 === 0 ? '.' + digits.slice(0, 6) : '.' + digits;
+}`,
+  timestampToJSON: `
+/** RFC 3339 date in UTC, such as \`'1972-01-01T10:00:20.021Z'\` */
+function $timestampToJSON(seconds: number, nanos: number): string {
+  return new Date(seconds * 1000).toISOString().slice(0, 19) + $jsonFraction(nanos) + 'Z';
+}`,
+  timestampFromJSON: `
+function $timestampFromJSON(value: unknown): [number, number] {
+  const pattern = /^(\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2})(?:\\.(\\d{1,9}))?(Z|[+-]\\d{2}:\\d{2})$/;
+  const match = pattern.exec($jsonString(value));
+  const seconds = match === null ? NaN : Date.parse(match[1] + match[3]) / 1000;
+  if (match === null || Number.isNaN(seconds)) {
+    throw new TypeError('Expected an RFC 3339 timestamp');
+  }
+  return [seconds, Number((match[2] ?? '').padEnd(9, '0'))];
+}`,
+  durationToJSON: `
+/** seconds with the \`s\` suffix, such as \`'-1.5s'\` */
+function $durationToJSON(seconds: number, nanos: number): string {
+  const sign = seconds < 0 || nanos < 0 ? '-' : '';
+  return sign + Math.abs(seconds) + $jsonFraction(Math.abs(nanos)) + 's';
+}`,
+  durationFromJSON: `
+function $durationFromJSON(value: unknown): [number, number] {
+  const match = /^(-?)(\\d+)(?:\\.(\\d{1,9}))?s$/.exec($jsonString(value));
+  if (match === null) {
+    throw new TypeError('Expected a duration such as 1.5s');
+  }
+  const sign = match[1] === '-' ? -1 : 1;
+  return [sign * Number(match[2]), sign * Number((match[3] ?? '').padEnd(9, '0'))];
+}`,
+  fieldMaskToJSON: `
+/** paths in camelCase separated by commas */
+function $fieldMaskToJSON(paths: string[]): string {
+  return paths.map((path) => path.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase())).join(',');
+}`,
+  fieldMaskFromJSON: `
+function $fieldMaskFromJSON(value: unknown): string[] {
+  const text = $jsonString(value);
+  if (text === '') {
+    return [];
+  }
+  return text.split(',').map((path) => path.replace(/[A-Z]/g, (char) => '_' + char.toLowerCase()));
+}`,
+};
+
+/** helpers used by other helpers of `JSON_RUNTIME` */
+export const JSON_RUNTIME_DEPENDENCIES: Record<string, string[]> = {
+  jsonInteger: ['INTEGER_RANGES'],
+  toBase64: ['BASE64'],
+  fromBase64: ['BASE64', 'jsonString'],
+  timestampToJSON: ['jsonFraction'],
+  timestampFromJSON: ['jsonString'],
+  durationToJSON: ['jsonFraction'],
+  durationFromJSON: ['jsonString'],
+  fieldMaskFromJSON: ['jsonString'],
+};
+
+/** helper of the generated type guards, copied into every generated file with guards */
+export const GUARD_RUNTIME: string = `
+function $isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+`;
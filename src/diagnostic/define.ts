@@ -0,0 +1,56 @@
+export type Severity = 'error' | 'warning' | 'info';
+
+/**
+ * stable codes of every diagnostic, the prefix tells the stage that reports it:
+ * `L` lexer, `P` parser, `I` imports, `R` resolver and `V` validator
+ */
+export const DiagnosticCode = {
+  UNTERMINATED_COMMENT: 'L1001',
+  UNTERMINATED_STRING: 'L1002',
+  UNKNOWN_CHARACTER: 'L1003',
+  INVALID_NUMBER: 'L1004',
+  INVALID_ESCAPE: 'L1005',
+
+  UNEXPECTED_TOKEN: 'P1001',
+  EXPECTED_IDENTIFIER: 'P1002',
+  INVALID_OPTION_VALUE: 'P1003',
+  INVALID_MAP_KEY_TYPE: 'P1004',
+  MAP_FIELD_LABEL: 'P1005',
+
+  FILE_NOT_FOUND: 'I1001',
+  IMPORT_CYCLE: 'I1002',
+
+  UNDEFINED_TYPE: 'R1001',
+  UNRESOLVED_TYPE: 'R1002',
+
+  INVALID_FIELD_NUMBER: 'V1001',
+  IMPLEMENTATION_FIELD_NUMBER: 'V1002',
+  DUPLICATE_FIELD_NUMBER: 'V1003',
+  DUPLICATE_FIELD_NAME: 'V1004',
+  RESERVED_NUMBER: 'V1005',
+  RESERVED_NAME: 'V1006',
+  FIELD_IN_EXTENSION_RANGE: 'V1007',
+  REQUIRED_IN_PROTO3: 'V1008',
+  DUPLICATE_TYPE_NAME: 'V1009',
+  EMPTY_ENUM: 'V1010',
+  FIRST_ENUM_VALUE_NOT_ZERO: 'V1011',
+  DUPLICATE_ENUM_VALUE: 'V1012',
+  EXTENDEE_NOT_MESSAGE: 'V1013',
+  UNDECLARED_EXTENSION_NUMBER: 'V1014',
+  INVALID_ENUM_VALUE: 'V1015',
+  UNSUPPORTED_EDITION: 'V1016',
+  LABEL_IN_EDITIONS: 'V1017',
+  INVALID_FEATURE: 'V1018',
+  INVALID_GROUP: 'V1019',
+  INVALID_DEFAULT: 'V1020',
+  INVALID_RESERVED_NAME: 'V1021',
+  INVALID_ONEOF_FIELD: 'V1022',
+  EMPTY_ONEOF: 'V1023',
+  DUPLICATE_ENUM_VALUE_NAME: 'V1024',
+  DUPLICATE_METHOD_NAME: 'V1025',
+  INVALID_METHOD_TYPE: 'V1026',
+  MISSING_SYNTAX: 'V2001',
+  UNSUPPORTED_PATTERN: 'V2002',
+} as const;
+
+export type DiagnosticCode = (typeof DiagnosticCode)[keyof typeof DiagnosticCode];
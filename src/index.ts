@@ -1,3 +1,5 @@
 export { version } from '~/package.json';
 
-export { compile } from './compiler/compile';
+export { compile, parseProto } from './compiler/compile';
+export { compileProject } from './compiler/compileProject';
+export { DiagnosticCode } from './diagnostic/define';
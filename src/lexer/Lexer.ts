@@ -1,6 +1,16 @@
-import { isDigit, isIdentifierChar, isIdentifierStart, isWhitespace } from './helper';
+import { DiagnosticCode } from '@/diagnostic/define';
+import {
+  decodeUtf8,
+  encodeUtf8,
+  isDigit,
+  isHexDigit,
+  isIdentifierChar,
+  isIdentifierStart,
+  isOctalDigit,
+  isWhitespace,
+} from './helper';
 import { TokenType, type LexerError, type Token } from './TokenType';
-import { KEYWORDS, SYMBOLS } from './define';
+import { CHAR_ESCAPES, KEYWORDS, SYMBOLS } from './define';
 
 interface LexerOutput {
   tokens: Token[];
@@ -36,12 +46,21 @@ class Lexer {
     };
   }
 
-  private _addError(message: string, line?: number, column?: number): void {
+  private _addError(
+    code: DiagnosticCode,
+    message: string,
+    line?: number,
+    column?: number,
+    position?: number,
+    length?: number,
+  ): void {
     this._errors.push({
+      code,
       message,
       line: line ?? this._line,
       column: column ?? this._column,
-      position: this._position,
+      position: position ?? this._position,
+      length,
     });
   }
 
@@ -59,6 +78,25 @@ class Lexer {
     return this._source[this._position + 1];
   }
 
+  /** skip characters on the current line */
+  private _skip(count: number): void {
+    this._position += count;
+    this._column += count;
+  }
+
+  /** read up to `max` characters matching `test` */
+  private _readWhile(test: (char: string) => boolean, max: number = Infinity): string {
+    const start = this._position;
+    while (
+      this._position < this._source.length &&
+      this._position - start < max &&
+      test(this._current())
+    ) {
+      this._skip(1);
+    }
+    return this._source.slice(start, this._position);
+  }
+
   private _skipWhitespace(): void {
     while (this._position < this._source.length) {
       const char = this._current();
@@ -118,7 +156,12 @@ class Lexer {
     }
 
     if (this._position >= this._source.length) {
-      this._addError('Unterminated block comment', startLine, startColumn);
+      this._addError(
+        DiagnosticCode.UNTERMINATED_COMMENT,
+        'Unterminated block comment',
+        startLine,
+        startColumn,
+      );
       return;
     }
 
@@ -127,75 +170,167 @@ class Lexer {
     this._tokens.push(token);
   }
 
-  private _readStringLiteral(quote: string): Token | null {
+  /** read an escape sequence starting at "\" and append the bytes it stands for */
+  private _readEscape(bytes: number[]): void {
     const start = this._position;
-    const startLine = this._line;
     const startColumn = this._column;
+    this._skip(1);
+    const char = this._current();
+    if (Object.hasOwn(CHAR_ESCAPES, char)) {
+      this._skip(1);
+      bytes.push(CHAR_ESCAPES[char].charCodeAt(0));
+      return;
+    }
+    if (char === 'x' || char === 'X') {
+      this._skip(1);
+      const digits = this._readWhile(isHexDigit, 2);
+      if (digits.length > 0) {
+        bytes.push(parseInt(digits, 16));
+        return;
+      }
+    } else if (isOctalDigit(char)) {
+      // like protoc, `\777` keeps the low byte
+      bytes.push(parseInt(this._readWhile(isOctalDigit, 3), 8) & 0xff);
+      return;
+    } else if (char === 'u' || char === 'U') {
+      this._skip(1);
+      const length = char === 'u' ? 4 : 8;
+      const digits = this._readWhile(isHexDigit, length);
+      const codePoint = parseInt(digits, 16);
+      if (digits.length === length && codePoint <= 0x10ffff) {
+        bytes.push(...encodeUtf8(String.fromCodePoint(codePoint)));
+        return;
+      }
+    } else if (char !== '' && char !== '\n') {
+      this._skip(1);
+    }
+    this._addError(
+      DiagnosticCode.INVALID_ESCAPE,
+      `Invalid escape sequence: ${this._source.slice(start, this._position)}`,
+      this._line,
+      startColumn,
+      start,
+    );
+    bytes.push(...encodeUtf8(this._source.slice(start + 1, this._position)));
+  }
 
-    this._position += 1;
-    this._column += 1;
+  /**
+   * string literals are decoded into bytes: `\x` and octal escapes are single bytes, other
+   * characters are UTF-8 encoded, the value is the bytes decoded as UTF-8
+   */
+  private _readStringLiteral(quote: string): Token {
+    const start = this._position;
+    const startLine = this._line;
+    const startColumn = this._column;
 
-    let value = '';
-    while (this._position < this._source.length && this._current() !== quote) {
-      const char = this._current();
-      if (char === '\\' && this._position + 1 < this._source.length) {
-        const nextChar = this._source[this._position + 1];
-        if (nextChar === 'n') {
-          value += '\n';
-        } else if (nextChar === 't') {
-          value += '\t';
-        } else if (nextChar === 'r') {
-          value += '\r';
-        } else if (nextChar === '\\') {
-          value += '\\';
-        } else if (nextChar === '"') {
-          value += '"';
-        } else {
-          value += nextChar;
-        }
-        this._position += 2;
-        this._column += 2;
+    this._skip(1);
+
+    const bytes: number[] = [];
+    // characters up to the next escape, encoded together to keep surrogate pairs intact
+    let text = '';
+    // string literals cannot cross line boundaries
+    while (
+      this._position < this._source.length &&
+      this._current() !== quote &&
+      this._current() !== '\n'
+    ) {
+      if (this._current() === '\\') {
+        bytes.push(...encodeUtf8(text));
+        text = '';
+        this._readEscape(bytes);
       } else {
-        value += char;
-        this._position += 1;
-        this._column += 1;
+        text += this._current();
+        this._skip(1);
       }
     }
-
-    if (this._position >= this._source.length) {
-      this._addError('Unterminated string literal', startLine, startColumn);
-      return null;
+    bytes.push(...encodeUtf8(text));
+
+    if (this._current() === quote) {
+      this._skip(1);
+    } else {
+      this._addError(
+        DiagnosticCode.UNTERMINATED_STRING,
+        'Unterminated string literal',
+        startLine,
+        startColumn,
+        start,
+        this._position - start,
+      );
     }
 
-    this._position += 1;
-    this._column += 1;
+    const value = new Uint8Array(bytes);
+    const token = this._createToken(
+      TokenType.STRING_LITERAL,
+      decodeUtf8(value),
+      start,
+      startLine,
+      startColumn,
+    );
+    token.bytes = value;
+    return token;
+  }
 
-    return this._createToken(TokenType.STRING_LITERAL, value, start, startLine, startColumn);
+  /** whether a number starts at the current character, `inf` and `nan` only count with a sign */
+  private _isNumberStart(): boolean {
+    const char = this._current();
+    const offset = char === '-' || char === '+' ? 1 : 0;
+    const first = this._source[this._position + offset] ?? '';
+    const second = this._source[this._position + offset + 1] ?? '';
+    if (isDigit(first) || (first === '.' && isDigit(second))) {
+      return true;
+    }
+    return (
+      offset === 1 &&
+      /^(inf|nan)(?![a-zA-Z0-9_])/.test(this._source.slice(this._position + 1, this._position + 5))
+    );
   }
 
   private _readNumber(): Token {
     const start = this._position;
     const startLine = this._line;
     const startColumn = this._column;
+    const invalid = (message: string) => {
+      this._addError(DiagnosticCode.INVALID_NUMBER, message, startLine, startColumn, start);
+    };
 
-    if (this._current() === '-') {
-      this._position += 1;
-      this._column += 1;
+    if (this._current() === '-' || this._current() === '+') {
+      this._skip(1);
     }
 
-    while (this._position < this._source.length && isDigit(this._current())) {
-      this._position += 1;
-      this._column += 1;
+    if (isIdentifierStart(this._current())) {
+      // signed "inf" or "nan"
+      this._skip(3);
+    } else if (this._current() === '0' && (this._next() === 'x' || this._next() === 'X')) {
+      this._skip(2);
+      if (this._readWhile(isHexDigit).length === 0) {
+        invalid('Expect hex digits after "0x"');
+      }
+    } else {
+      const integer = this._readWhile(isDigit);
+      let isFloat = false;
+      if (this._current() === '.') {
+        isFloat = true;
+        this._skip(1);
+        this._readWhile(isDigit);
+      }
+      if (this._current() === 'e' || this._current() === 'E') {
+        isFloat = true;
+        this._skip(1);
+        if (this._current() === '-' || this._current() === '+') {
+          this._skip(1);
+        }
+        if (this._readWhile(isDigit).length === 0) {
+          invalid('Expect digits in the exponent');
+        }
+      }
+      if (!isFloat && integer.length > 1 && integer.startsWith('0') && /[89]/.test(integer)) {
+        invalid(`Invalid octal number: ${integer}`);
+      }
     }
 
-    // check decimal
-    if (this._current() === '.') {
-      this._position += 1;
-      this._column += 1;
-      while (this._position < this._source.length && isDigit(this._current())) {
-        this._position += 1;
-        this._column += 1;
-      }
+    if (isIdentifierChar(this._current())) {
+      invalid('Expect whitespace between a number and an identifier');
+      this._readWhile(isIdentifierChar);
     }
 
     const value = this._source.slice(start, this._position);
@@ -219,6 +354,18 @@ class Lexer {
     return this._createToken(type, value, start, startLine, startColumn);
   }
 
+  /** a character that starts no token, whitespace or comment */
+  private _isUnknownCharacter(char: string): boolean {
+    return !(
+      isWhitespace(char) ||
+      char === '"' ||
+      char === "'" ||
+      isIdentifierStart(char) ||
+      SYMBOLS[char] !== undefined ||
+      this._isNumberStart()
+    );
+  }
+
   tokenize(): LexerOutput {
     while (this._position < this._source.length) {
       const start = this._position;
@@ -242,16 +389,14 @@ class Lexer {
       }
 
       // string identifier
-      if (char === '"') {
+      if (char === '"' || char === "'") {
         const token = this._readStringLiteral(char);
-        if (token) {
-          this._tokens.push(token);
-        }
+        this._tokens.push(token);
         continue;
       }
 
       // number identifier
-      if (isDigit(char) || (char === '-' && isDigit(this._next()))) {
+      if (this._isNumberStart()) {
         const token = this._readNumber();
         this._tokens.push(token);
         continue;
@@ -274,10 +419,18 @@ class Lexer {
         continue;
       }
 
-      // unknown character
-      this._addError(`Unknown character: ${char}`, this._line, this._column);
-      this._position += 1;
-      this._column += 1;
+      // unknown characters, a run of them is reported once
+      const startColumn = this._column;
+      this._skip(1);
+      const rest = this._readWhile((item) => this._isUnknownCharacter(item));
+      this._addError(
+        DiagnosticCode.UNKNOWN_CHARACTER,
+        rest ? `Unknown characters: ${char}${rest}` : `Unknown character: ${char}`,
+        this._line,
+        startColumn,
+        start,
+        this._position - start,
+      );
     }
 
     return {
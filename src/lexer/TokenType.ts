@@ -1,3 +1,5 @@
+import type { DiagnosticCode } from '@/diagnostic/define';
+
 export const enum TokenType {
   /** identifier */
   IDENTIFIER,
@@ -91,11 +93,16 @@ export interface Token {
   column: number;
   start: number;
   end: number;
+  /** content of a string literal as bytes, `value` is these bytes decoded as UTF-8 */
+  bytes?: Uint8Array;
 }
 
 export interface LexerError {
+  code: DiagnosticCode;
   message: string;
   line: number;
   column: number;
   position: number;
+  /** number of characters the error covers, one when not given */
+  length?: number;
 }
@@ -58,3 +58,18 @@ export const SYMBOLS: Record<string, TokenType> = {
   '*': TokenType.STAR,
   ':': TokenType.COLON,
 } as const;
+
+/** single character escape sequences in string literals */
+export const CHAR_ESCAPES: Record<string, string> = {
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+  '?': '?',
+} as const;
@@ -1,3 +1,6 @@
+import { KEYWORDS, SYMBOLS } from './define';
+import { TokenType } from './TokenType';
+
 export function isWhitespace(char: string): boolean {
   return /\s/.test(char);
 }
@@ -6,10 +9,55 @@ export function isDigit(char: string): boolean {
   return /\d/.test(char);
 }
 
+export function isHexDigit(char: string): boolean {
+  return /[0-9a-fA-F]/.test(char);
+}
+
+export function isOctalDigit(char: string): boolean {
+  return /[0-7]/.test(char);
+}
+
 export function isIdentifierStart(char: string): boolean {
   return /[a-zA-Z_]/.test(char);
 }
 
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function encodeUtf8(text: string): Uint8Array {
+  return encoder.encode(text);
+}
+
+/** invalid sequences become U+FFFD */
+export function decodeUtf8(bytes: Uint8Array): string {
+  return decoder.decode(bytes);
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (let i = 0; i < chunks.length; i += 1) {
+    bytes.set(chunks[i], offset);
+    offset += chunks[i].length;
+  }
+  return bytes;
+}
+
 export function isIdentifierChar(char: string): boolean {
   return /[a-zA-Z0-9_]/.test(char);
 }
+
+const TOKEN_NAMES: Map<TokenType, string> = new Map([
+  [TokenType.IDENTIFIER, 'identifier'],
+  [TokenType.STRING_LITERAL, 'string'],
+  [TokenType.NUMBER_LITERAL, 'number'],
+  [TokenType.COMMENT, 'comment'],
+  [TokenType.EOF, 'end of file'],
+  ...Object.entries(KEYWORDS).map(([text, type]): [TokenType, string] => [type, `"${text}"`]),
+  ...Object.entries(SYMBOLS).map(([text, type]): [TokenType, string] => [type, `"${text}"`]),
+]);
+
+/** readable name of a token type, used in diagnostics */
+export function getTokenName(type: TokenType): string {
+  return TOKEN_NAMES.get(type) ?? 'token';
+}
@@ -1,3 +1,4 @@
+import type { DiagnosticCode } from '@/diagnostic/define';
 import { type TokenType } from '@/lexer/TokenType';
 
 export interface Position {
@@ -16,6 +17,9 @@ export const enum ASTKind {
   STRING_LITERAL,
   NUMBER_LITERAL,
   BOOLEAN_LITERAL,
+  AGGREGATE,
+  AGGREGATE_FIELD,
+  LIST,
   OPTION,
   TO,
   RESERVED,
@@ -31,9 +35,20 @@ export const enum ASTKind {
   IMPORT,
   PACKAGE,
   SYNTAX,
+  EDITION,
   PROTO_FILE,
 }
 
+/** comments attached to a declaration, following protoc's SourceCodeInfo rules */
+export interface Comments {
+  /** comment directly before the declaration */
+  leading: string;
+  /** comment on the line of the declaration end, or on the next lines when a blank line follows */
+  trailing: string;
+  /** comments before the leading comment separated from it by blank lines */
+  detached: string[];
+}
+
 export interface ASTNode<T extends ASTKind = ASTKind> {
   type: T;
   position: Position;
@@ -45,6 +60,8 @@ export interface IdentifierNode extends ASTNode<ASTKind.IDENTIFIER> {
 
 export interface StringLiteralNode extends ASTNode<ASTKind.STRING_LITERAL> {
   value: string;
+  /** escapes such as `\303` are single bytes, `value` is these bytes decoded as UTF-8 */
+  bytes: Uint8Array;
 }
 
 export interface NumberLiteralNode extends ASTNode<ASTKind.NUMBER_LITERAL> {
@@ -55,9 +72,35 @@ export interface BooleanLiteralNode extends ASTNode<ASTKind.BOOLEAN_LITERAL> {
   value: boolean;
 }
 
+/** enum values such as `JS_STRING` are kept as identifiers */
+export type OptionValueNode =
+  | StringLiteralNode
+  | NumberLiteralNode
+  | BooleanLiteralNode
+  | IdentifierNode
+  | AggregateNode;
+
+/** text format message value, e.g. `{ get: "/v1/{id}" additional_bindings { post: "/v1" } }` */
+export interface AggregateNode extends ASTNode<ASTKind.AGGREGATE> {
+  fields: AggregateFieldNode[];
+}
+
+export interface AggregateFieldNode extends ASTNode<ASTKind.AGGREGATE_FIELD> {
+  /** field name, extension and `Any` type names keep their brackets, e.g. `[foo.bar]` */
+  name: IdentifierNode;
+  value: AggregateValueNode;
+}
+
+/** list of values inside an aggregate, e.g. `[1, 2]` */
+export interface ListNode extends ASTNode<ASTKind.LIST> {
+  values: AggregateValueNode[];
+}
+
+export type AggregateValueNode = OptionValueNode | ListNode;
+
 export interface OptionNode extends ASTNode<ASTKind.OPTION> {
   name: IdentifierNode;
-  value: StringLiteralNode | NumberLiteralNode | BooleanLiteralNode;
+  value: OptionValueNode;
 }
 
 export interface ToNode extends ASTNode<ASTKind.TO> {
@@ -66,7 +109,8 @@ export interface ToNode extends ASTNode<ASTKind.TO> {
 }
 
 export interface ReservedNode extends ASTNode<ASTKind.RESERVED> {
-  ranges: (NumberLiteralNode | StringLiteralNode | ToNode)[];
+  /** names are string literals, or identifiers in editions */
+  ranges: (NumberLiteralNode | StringLiteralNode | IdentifierNode | ToNode)[];
 }
 
 export interface FieldTypeNode extends ASTNode<ASTKind.FIELD_TYPE> {
@@ -82,7 +126,7 @@ export interface FiledLabelNode extends ASTNode<ASTKind.FIELD_LABEL> {
 
 export interface FieldOptionNode extends ASTNode<ASTKind.FIELD_OPTION> {
   name: IdentifierNode;
-  value: StringLiteralNode | NumberLiteralNode | BooleanLiteralNode;
+  value: OptionValueNode;
 }
 
 export interface FieldNode extends ASTNode<ASTKind.FIELD> {
@@ -91,17 +135,22 @@ export interface FieldNode extends ASTNode<ASTKind.FIELD> {
   fieldNumber: NumberLiteralNode;
   label: FiledLabelNode | null;
   options: FieldOptionNode[];
+  /** proto2 group, the field type is the message declared by the group */
+  group: boolean;
+  comments: Comments;
 }
 
 export interface OneofNode extends ASTNode<ASTKind.ONEOF> {
   name: IdentifierNode;
   fields: FieldNode[];
+  comments: Comments;
 }
 
 export interface EnumFieldNode extends ASTNode<ASTKind.ENUM_FIELD> {
   name: IdentifierNode;
   value: NumberLiteralNode;
   options: FieldOptionNode[];
+  comments: Comments;
 }
 
 export interface EnumNode extends ASTNode<ASTKind.ENUM> {
@@ -109,10 +158,13 @@ export interface EnumNode extends ASTNode<ASTKind.ENUM> {
   fields: EnumFieldNode[];
   reserved: ReservedNode[];
   options: OptionNode[];
+  comments: Comments;
 }
 
 export interface ExtensionsNode extends ASTNode<ASTKind.EXTENSIONS> {
   ranges: (ToNode | NumberLiteralNode)[];
+  /** options of the ranges such as `declaration` and `verification` */
+  options: FieldOptionNode[];
 }
 
 export interface ExtendNode extends ASTNode<ASTKind.EXTEND> {
@@ -129,17 +181,27 @@ export interface MessageNode extends ASTNode<ASTKind.MESSAGE> {
   extends: ExtendNode[];
   reserved: ReservedNode[];
   messages: MessageNode[];
+  options: OptionNode[];
+  comments: Comments;
 }
 
 export interface RpcMethodNode extends ASTNode<ASTKind.RPC_METHOD> {
   name: IdentifierNode;
   inputType: IdentifierNode;
   outputType: IdentifierNode;
+  /** request is declared as `stream` */
+  clientStreaming: boolean;
+  /** response is declared as `stream` */
+  serverStreaming: boolean;
+  options: OptionNode[];
+  comments: Comments;
 }
 
 export interface ServiceNode extends ASTNode<ASTKind.SERVICE> {
   name: IdentifierNode;
   methods: RpcMethodNode[];
+  options: OptionNode[];
+  comments: Comments;
 }
 
 export interface ImportNode extends ASTNode<ASTKind.IMPORT> {
@@ -155,8 +217,14 @@ export interface SyntaxNode extends ASTNode<ASTKind.SYNTAX> {
   version: StringLiteralNode;
 }
 
+/** `edition = "2023";`, replaces the syntax declaration in editions files */
+export interface EditionNode extends ASTNode<ASTKind.EDITION> {
+  edition: StringLiteralNode;
+}
+
 export interface ProtoFileNode extends ASTNode<ASTKind.PROTO_FILE> {
   syntax: SyntaxNode | null;
+  edition: EditionNode | null;
   package: PackageNode | null;
   imports: ImportNode[];
   options: OptionNode[];
@@ -167,6 +235,7 @@ export interface ProtoFileNode extends ASTNode<ASTKind.PROTO_FILE> {
 }
 
 export interface ParserError {
+  code: DiagnosticCode;
   message: string;
   position: Position;
   expected?: TokenType[];
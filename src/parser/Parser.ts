@@ -1,7 +1,13 @@
+import { DiagnosticCode } from '@/diagnostic/define';
 import { type Token, TokenType } from '@/lexer/TokenType';
 import {
   ASTKind,
+  type AggregateFieldNode,
+  type AggregateNode,
+  type AggregateValueNode,
   type BooleanLiteralNode,
+  type Comments,
+  type EditionNode,
   type EnumFieldNode,
   type EnumNode,
   type ExtendNode,
@@ -17,6 +23,7 @@ import {
   type NumberLiteralNode,
   type OneofNode,
   type OptionNode,
+  type OptionValueNode,
   type PackageNode,
   type ParserError,
   type Position,
@@ -28,8 +35,27 @@ import {
   type SyntaxNode,
   type ToNode,
 } from './ASTType';
-import { isLabelToken, isValidIdentifier } from './helper';
-import { isIdentifierChar } from '@/lexer/helper';
+import {
+  getCommentText,
+  getEndLine,
+  isDeclarationKeyword,
+  isLabelToken,
+  isValidIdentifier,
+  isValidMapKeyType,
+} from './helper';
+import { concatBytes, decodeUtf8, isIdentifierChar } from '@/lexer/helper';
+
+/** tokens that end a scope, comments before them lead nothing */
+const SCOPE_ENDS = new Set([TokenType.RBRACE, TokenType.RBRACKET, TokenType.R_PARENTHESES]);
+
+/** comments between two tokens */
+interface CommentGroups {
+  /** comment of the previous token */
+  trailing: string;
+  /** comment of the next token */
+  leading: string;
+  detached: string[];
+}
 
 interface ParserOutput {
   ast: ProtoFileNode | null;
@@ -49,11 +75,134 @@ export class Parser {
   private _tokens: Token[] = [];
   private _position: number = 0;
   private _errors: ParserError[] = [];
+  /** comment tokens found before each token, the last entry holds the comments at the end */
+  private _comments: Token[][] = [];
+  /** end of file token, positioned after the last token */
+  private _eof: Token = EOF_TOKEN;
+  /** set after a syntax error, following errors are dropped until the parser is synchronized */
+  private _panic: boolean = false;
+  /** number of "{" without a matching "}" in the whole file */
+  private _unclosedBlocks: number = 0;
 
   constructor(tokens: Token[]) {
     this._tokens = tokens;
   }
 
+  private _collectComments() {
+    const tokens: Token[] = [];
+    let comments: Token[] = [];
+    for (let i = 0; i < this._tokens.length; i += 1) {
+      const token = this._tokens[i];
+      if (token.type === TokenType.COMMENT) {
+        comments.push(token);
+      } else {
+        tokens.push(token);
+        this._comments.push(comments);
+        comments = [];
+      }
+    }
+    this._comments.push(comments);
+    this._tokens = tokens;
+
+    const last = tokens[tokens.length - 1];
+    if (last !== undefined) {
+      this._eof = {
+        ...EOF_TOKEN,
+        line: last.line,
+        column: last.column + last.end - last.start,
+        start: last.end,
+        end: last.end,
+      };
+    }
+    let depth = 0;
+    for (let i = 0; i < tokens.length; i += 1) {
+      if (tokens[i].type === TokenType.LBRACE) {
+        depth += 1;
+      } else if (tokens[i].type === TokenType.RBRACE) {
+        depth -= 1;
+      }
+    }
+    this._unclosedBlocks = Math.max(depth, 0);
+  }
+
+  /**
+   * splits the comments before token `index` like protoc: a comment on the line of the previous
+   * token trails it, so does a first comment that a blank line separates from the next token, the
+   * comments right before the token lead it and the others are detached
+   */
+  private _splitComments(index: number): CommentGroups {
+    const groups: CommentGroups = { trailing: '', leading: '', detached: [] };
+    const comments = this._comments[index] ?? [];
+    const previous = index > 0 ? this._tokens[index - 1] : undefined;
+    const next = index < this._tokens.length ? this._tokens[index] : undefined;
+    let buffer: Token[] = [];
+    let canAttach = previous !== undefined;
+    const flush = () => {
+      if (buffer.length === 0) {
+        return;
+      }
+      const text = buffer.map(getCommentText).join('\n');
+      if (canAttach) {
+        groups.trailing = text;
+      } else {
+        groups.detached.push(text);
+      }
+      canAttach = false;
+      buffer = [];
+    };
+
+    let i = 0;
+    let endLine = previous?.line ?? 0;
+    const first = comments[0];
+    if (previous !== undefined && first !== undefined && first.line === previous.line) {
+      endLine = getEndLine(first);
+      const following = comments[1] ?? next;
+      if (!first.value.startsWith('//') && following !== undefined && following.line === endLine) {
+        // something follows the block comment on its line, protoc drops the comments
+        return groups;
+      }
+      buffer.push(first);
+      // comments on the following lines never join a trailing comment
+      flush();
+      i = 1;
+    }
+    for (; i < comments.length; i += 1) {
+      const comment = comments[i];
+      if (comment.line > endLine + 1) {
+        // a blank line ends the comment and separates the next ones from the previous token
+        flush();
+        canAttach = false;
+      }
+      const last = buffer[buffer.length - 1];
+      // consecutive line comments form one comment
+      if (last !== undefined && !(comment.value.startsWith('//') && last.value.startsWith('//'))) {
+        flush();
+      }
+      buffer.push(comment);
+      endLine = getEndLine(comment);
+    }
+    if (next !== undefined && next.line > endLine + 1) {
+      flush();
+      canAttach = false;
+    }
+    if (next === undefined || SCOPE_ENDS.has(next.type)) {
+      // nothing to lead at the end of a scope
+      flush();
+    }
+    groups.leading = buffer.map(getCommentText).join('\n');
+    return groups;
+  }
+
+  /**
+   * comments of a declaration starting at token `startIndex`, the trailing comment is searched
+   * after token `trailingIndex` (the ";" of a statement or the "{" of a block)
+   */
+  private _getComments(startIndex: number, trailingIndex: number): Comments {
+    const { leading, detached } = this._splitComments(startIndex);
+    const { trailing } = this._splitComments(trailingIndex + 1);
+    return { leading, trailing, detached };
+  }
+
   private _previous(): Token {
     if (this._position <= 0) {
       return EOF_TOKEN;
@@ -63,7 +212,7 @@ export class Parser {
 
   private _current(): Token {
     if (this._position >= this._tokens.length) {
-      return EOF_TOKEN;
+      return this._eof;
     }
     return this._tokens[this._position];
   }
@@ -79,7 +228,7 @@ export class Parser {
       }
     }
 
-    return EOF_TOKEN;
+    return this._eof;
   }
 
   private _advance(): Token {
@@ -96,11 +245,21 @@ export class Parser {
     return this._current().type === type;
   }
 
-  private _addError(message: string, expected?: TokenType[]): void {
+  private _addError(
+    code: DiagnosticCode,
+    message: string,
+    expected?: TokenType[],
+    position?: Position,
+  ): void {
+    // errors following a syntax error in the same statement are only consequences of it
+    if (this._panic) {
+      return;
+    }
     const token = this._current();
     this._errors.push({
+      code,
       message,
-      position: {
+      position: position ?? {
         line: token.line,
         column: token.column,
         start: token.start,
@@ -110,11 +269,37 @@ export class Parser {
     });
   }
 
+  /** report a syntax error and enter panic mode until the parser is synchronized */
+  private _unexpected(code: DiagnosticCode, message: string, expected?: TokenType[]): void {
+    this._addError(code, message, expected);
+    this._panic = true;
+  }
+
+  /** empty position right after the previous token, where a missing terminator belongs */
+  private _getEndPosition(): Position {
+    const token = this._previous();
+    return {
+      line: token.line,
+      column: token.column + token.end - token.start,
+      start: token.end,
+      end: token.end,
+    };
+  }
+
+  private _isNewLine(): boolean {
+    return this._position > 0 && this._current().line > this._previous().line;
+  }
+
   private _expect(type: TokenType, message: string): Token {
     if (this._check(type)) {
       return this._advance();
     }
-    this._addError(message, [type]);
+    // a ";" missing at the end of a line does not affect the statement, so there is nothing to skip
+    if (type === TokenType.SEMICOLON && (this._isNewLine() || this._check(TokenType.EOF))) {
+      this._addError(DiagnosticCode.UNEXPECTED_TOKEN, message, [type], this._getEndPosition());
+      return this._current();
+    }
+    this._unexpected(DiagnosticCode.UNEXPECTED_TOKEN, message, [type]);
     return this._current();
   }
 
@@ -123,10 +308,135 @@ export class Parser {
       this._position += 1;
       return this._previous();
     }
-    this._addError(message, [TokenType.IDENTIFIER]);
+    this._unexpected(DiagnosticCode.EXPECTED_IDENTIFIER, message, [TokenType.IDENTIFIER]);
     return this._current();
   }
 
+  /**
+   * expect the "{" opening a block, the rest of a broken declaration header is skipped,
+   * returns `false` when the declaration has no body
+   */
+  private _expectBlockStart(message: string): boolean {
+    if (!this._panic && this._match(TokenType.LBRACE)) {
+      return true;
+    }
+    this._unexpected(DiagnosticCode.UNEXPECTED_TOKEN, message, [TokenType.LBRACE]);
+    while (
+      this._position < this._tokens.length &&
+      !this._check(TokenType.LBRACE) &&
+      !this._check(TokenType.SEMICOLON) &&
+      !this._check(TokenType.RBRACE) &&
+      !(this._isNewLine() && this._isDeclarationStart())
+    ) {
+      this._advance();
+    }
+    this._panic = false;
+    if (this._match(TokenType.LBRACE)) {
+      return true;
+    }
+    this._match(TokenType.SEMICOLON);
+    return false;
+  }
+
+  /**
+   * whether the block opened by `startToken` ends at the current token. A declaration that
+   * cannot be nested, or one starting on a new line left of the block, means the "}" is missing
+   * when the file has unclosed blocks.
+   */
+  private _isBlockEnd(startToken: Token): boolean {
+    if (this._position >= this._tokens.length || this._check(TokenType.RBRACE)) {
+      return true;
+    }
+    if (this._unclosedBlocks === 0 || !this._isNewLine()) {
+      return false;
+    }
+    const isTopLevel =
+      this._isStatementStart(TokenType.SERVICE) ||
+      (this._check(TokenType.IMPORT) && this._nextEffect().type === TokenType.STRING_LITERAL) ||
+      (this._check(TokenType.SYNTAX) && this._nextEffect().type === TokenType.EQUAL);
+    const isOutdented =
+      this._current().column <= startToken.column &&
+      (this._isStatementStart(TokenType.MESSAGE) ||
+        this._isStatementStart(TokenType.ENUM) ||
+        this._isExtendStart());
+    if (isTopLevel || isOutdented) {
+      this._unclosedBlocks -= 1;
+      return true;
+    }
+    return false;
+  }
+
+  private _expectBlockEnd(message: string): void {
+    if (!this._match(TokenType.RBRACE)) {
+      this._addError(
+        DiagnosticCode.UNEXPECTED_TOKEN,
+        message,
+        [TokenType.RBRACE],
+        this._getEndPosition(),
+      );
+    }
+  }
+
+  /** whether the current token looks like the start of a declaration or a field */
+  private _isDeclarationStart(): boolean {
+    const next = this._nextEffect();
+    return (
+      isDeclarationKeyword(this._current()) ||
+      (isValidIdentifier(this._current().value) &&
+        (isValidIdentifier(next.value) || next.type === TokenType.DOT))
+    );
+  }
+
+  private _skipBlock() {
+    let depth = 0;
+    while (this._position < this._tokens.length) {
+      const token = this._advance();
+      if (token.type === TokenType.LBRACE) {
+        depth += 1;
+      } else if (token.type === TokenType.RBRACE) {
+        depth -= 1;
+        if (depth <= 0) {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * leave panic mode after a statement starting at token `statementStart`: the rest of the
+   * statement is skipped up to its ";", a nested block, the "}" of the enclosing block, or a
+   * declaration on a following line
+   */
+  private _synchronize(statementStart: number): void {
+    if (!this._panic && this._position > statementStart) {
+      return;
+    }
+    this._panic = false;
+    const previous = this._previous().type;
+    if (
+      this._position > statementStart &&
+      (previous === TokenType.SEMICOLON || previous === TokenType.RBRACE)
+    ) {
+      return;
+    }
+    if (this._position === statementStart) {
+      this._advance();
+    }
+    while (this._position < this._tokens.length) {
+      if (this._match(TokenType.SEMICOLON) || this._check(TokenType.RBRACE)) {
+        return;
+      }
+      if (this._check(TokenType.LBRACE)) {
+        this._skipBlock();
+        return;
+      }
+      if (this._isNewLine() && this._isDeclarationStart()) {
+        return;
+      }
+      this._advance();
+    }
+  }
+
   private _match(...types: TokenType[]): boolean {
     for (let i = 0; i < types.length; i += 1) {
       if (this._check(types[i])) {
@@ -148,10 +458,20 @@ export class Parser {
 
   private _parseStringLiteral(message: string): StringLiteralNode {
     const startToken = this._expect(TokenType.STRING_LITERAL, message);
+    const chunks = [startToken.bytes ?? new Uint8Array(0)];
+    let end = startToken.end;
+    // adjacent string literals are concatenated, a UTF-8 sequence may span two of them
+    while (startToken.type === TokenType.STRING_LITERAL && this._check(TokenType.STRING_LITERAL)) {
+      const token = this._advance();
+      chunks.push(token.bytes ?? new Uint8Array(0));
+      end = token.end;
+    }
+    const bytes = chunks.length === 1 ? chunks[0] : concatBytes(chunks);
     return {
       type: ASTKind.STRING_LITERAL,
-      position: this._createPosition(startToken.start, startToken.end, startToken),
-      value: startToken.value,
+      position: this._createPosition(startToken.start, end, startToken),
+      value: chunks.length === 1 ? startToken.value : decodeUtf8(bytes),
+      bytes,
     };
   }
 
@@ -167,12 +487,12 @@ export class Parser {
   private _parseBooleanLiteral(message: string): BooleanLiteralNode {
     const startToken = this._current();
     if (!this._match(TokenType.TRUE, TokenType.FALSE)) {
-      this._addError(message, [TokenType.TRUE, TokenType.FALSE]);
+      this._unexpected(DiagnosticCode.UNEXPECTED_TOKEN, message, [TokenType.TRUE, TokenType.FALSE]);
     }
     return {
       type: ASTKind.BOOLEAN_LITERAL,
       position: this._createPosition(startToken.start, startToken.end, startToken),
-      value: startToken.value === 'true',
+      value: startToken.type === TokenType.TRUE,
     };
   }
 
@@ -190,10 +510,23 @@ export class Parser {
     };
   }
 
+  private _parseEdition(): EditionNode {
+    const startToken = this._advance(); // skip "edition"
+    this._expect(TokenType.EQUAL, 'Expect "=" after edition keyword');
+    const edition = this._parseStringLiteral('Expect edition string after "="');
+    this._expect(TokenType.SEMICOLON, 'Expect ";" after edition');
+
+    return {
+      type: ASTKind.EDITION,
+      edition,
+      position: this._createPosition(startToken.start, startToken.end, startToken),
+    };
+  }
+
   private _parseIdentifier(message: string): IdentifierNode {
     const startToken = this._expectIdentifier(message);
     if (!isValidIdentifier(startToken.value)) {
-      this._addError(message);
+      this._addError(DiagnosticCode.EXPECTED_IDENTIFIER, message);
     }
     return {
       type: ASTKind.IDENTIFIER,
@@ -203,8 +536,10 @@ export class Parser {
   }
 
   private _parseQualifiedIdentifier(message: string): IdentifierNode {
-    const startToken = this._expectIdentifier(message);
-    let name = startToken.value;
+    const startToken = this._current();
+    // fully qualified names start with "."
+    let name = this._match(TokenType.DOT) ? '.' : '';
+    name += this._expectIdentifier(message).value;
     while (this._match(TokenType.DOT)) {
       const nextToken = this._expectIdentifier('Expect identifier after "."');
       name += `.${nextToken.value}`;
@@ -245,24 +580,23 @@ export class Parser {
     };
   }
 
-  private _parseOptionName(): IdentifierNode {
-    const startToken = this._current();
-    let name = '';
-    if (this._match(TokenType.L_PARENTHESES)) {
-      const innerToken = this._expectIdentifier('Expect option name after "("');
-      name = `(${innerToken.value}`;
-      while (this._match(TokenType.DOT)) {
-        const nextToken = this._expectIdentifier('Expect identifier after "."');
-        name += `.${nextToken.value}`;
-      }
-      name += ')';
-      this._expect(TokenType.R_PARENTHESES, 'Expect ")" after option name');
-    } else {
-      name = this._expectIdentifier('Expect option name after "option" keyword').value;
+  /** option names may refer to custom options and their fields, e.g. `(validate.rules).string` */
+  /** a part of an option name, an identifier or an extension name in parentheses */
+  private _parseOptionNamePart(message: string): string {
+    if (!this._match(TokenType.L_PARENTHESES)) {
+      return this._expectIdentifier(message).value;
     }
+    const extensionName = this._parseQualifiedIdentifier('Expect option name after "("');
+    this._expect(TokenType.R_PARENTHESES, 'Expect ")" after option name');
+    return `(${extensionName.value})`;
+  }
+
+  private _parseOptionName(message: string): IdentifierNode {
+    const startToken = this._current();
+    let name = this._parseOptionNamePart(message);
+    // every part may be an extension, e.g. `(a.b).(c.d).e`
     while (this._match(TokenType.DOT)) {
-      const nextToken = this._expectIdentifier('Expect identifier after "."');
-      name += `.${nextToken.value}`;
+      name += `.${this._parseOptionNamePart('Expect identifier after "."')}`;
     }
 
     return {
@@ -272,26 +606,160 @@ export class Parser {
     };
   }
 
-  private _parseOption(): OptionNode {
+  private _parseOptionValue(): OptionValueNode {
     const startToken = this._current();
-    this._expect(TokenType.OPTION, 'Expect "option" keyword');
-    const name = this._parseOptionName();
-    this._expect(TokenType.EQUAL, 'Expect "=" after option name');
-    let value: StringLiteralNode | NumberLiteralNode | BooleanLiteralNode;
     if (this._check(TokenType.STRING_LITERAL)) {
-      value = this._parseStringLiteral('Expect option value after "="');
-    } else if (this._check(TokenType.NUMBER_LITERAL)) {
-      value = this._parseNumberLiteral('Expect option value after "="');
-    } else if (this._check(TokenType.TRUE) || this._check(TokenType.FALSE)) {
-      value = this._parseBooleanLiteral('Expect option value after "="');
+      return this._parseStringLiteral('Expect option value after "="');
+    }
+    if (this._check(TokenType.NUMBER_LITERAL)) {
+      return this._parseNumberLiteral('Expect option value after "="');
+    }
+    if (this._check(TokenType.TRUE) || this._check(TokenType.FALSE)) {
+      return this._parseBooleanLiteral('Expect option value after "="');
+    }
+    if (this._check(TokenType.LBRACE)) {
+      return this._parseAggregate();
+    }
+    // enum values may look like keywords, e.g. `STRING`
+    if (isValidIdentifier(this._current().value)) {
+      const identifier = this._parseIdentifier('Expect option value after "="');
+      // unsigned "inf" and "nan" are lexed as identifiers
+      if (identifier.value === 'inf' || identifier.value === 'nan') {
+        return {
+          type: ASTKind.NUMBER_LITERAL,
+          value: identifier.value,
+          position: identifier.position,
+        };
+      }
+      return identifier;
+    }
+    this._unexpected(
+      DiagnosticCode.INVALID_OPTION_VALUE,
+      'Expect option (string, number, boolean, enum or message) value after "="',
+    );
+    return {
+      type: ASTKind.STRING_LITERAL,
+      value: '',
+      bytes: new Uint8Array(0),
+      position: this._createPosition(startToken.start, startToken.end, startToken),
+    };
+  }
+
+  /** field name inside an aggregate, extensions and `Any` type URLs are written in brackets */
+  private _parseAggregateFieldName(): IdentifierNode {
+    const startToken = this._current();
+    if (!this._match(TokenType.LBRACKET)) {
+      return this._parseIdentifier('Expect field name in aggregate value');
+    }
+    let name = `[${this._parseQualifiedIdentifier('Expect extension name after "["').value}`;
+    if (this._match(TokenType.SLASH)) {
+      name += `/${this._parseQualifiedIdentifier('Expect type name after "/"').value}`;
+    }
+    this._expect(TokenType.RBRACKET, 'Expect "]" after extension name');
+
+    return {
+      type: ASTKind.IDENTIFIER,
+      value: `${name}]`,
+      position: this._createPosition(startToken.start, this._previous().end, startToken),
+    };
+  }
+
+  private _parseAggregateValue(): AggregateValueNode {
+    if (this._check(TokenType.LBRACE) || this._check(TokenType.L_ANGLE)) {
+      return this._parseAggregate();
+    }
+    if (!this._check(TokenType.LBRACKET)) {
+      return this._parseOptionValue();
+    }
+
+    const startToken = this._advance();
+    const values: AggregateValueNode[] = [];
+    if (!this._check(TokenType.RBRACKET)) {
+      do {
+        values.push(this._parseAggregateValue());
+      } while (this._match(TokenType.COMMA));
+    }
+    this._expect(TokenType.RBRACKET, 'Expect "]" after list values');
+
+    return {
+      type: ASTKind.LIST,
+      values,
+      position: this._createPosition(startToken.start, this._previous().end, startToken),
+    };
+  }
+
+  private _parseAggregateField(): AggregateFieldNode {
+    const startToken = this._current();
+    const name = this._parseAggregateFieldName();
+    // the ":" is optional before message values and lists of messages
+    const hasColon = this._match(TokenType.COLON);
+    if (
+      !hasColon &&
+      !this._check(TokenType.LBRACE) &&
+      !this._check(TokenType.L_ANGLE) &&
+      !this._check(TokenType.LBRACKET)
+    ) {
+      this._unexpected(DiagnosticCode.UNEXPECTED_TOKEN, 'Expect ":" after field name', [
+        TokenType.COLON,
+      ]);
+    }
+    const value = this._parseAggregateValue();
+
+    return {
+      type: ASTKind.AGGREGATE_FIELD,
+      name,
+      value,
+      position: this._createPosition(startToken.start, this._previous().end, startToken),
+    };
+  }
+
+  /** text format message value between "{" and "}", or "<" and ">" when nested */
+  private _parseAggregate(): AggregateNode {
+    const startToken = this._advance();
+    const open = startToken.type;
+    const close = open === TokenType.L_ANGLE ? TokenType.R_ANGLE : TokenType.RBRACE;
+    const fields: AggregateFieldNode[] = [];
+    while (!this._check(close) && this._position < this._tokens.length && !this._panic) {
+      fields.push(this._parseAggregateField());
+      // fields may be separated by "," or ";"
+      if (!this._match(TokenType.COMMA)) {
+        this._match(TokenType.SEMICOLON);
+      }
+    }
+
+    if (this._panic) {
+      // skip the rest of the value so that its "}" does not close the enclosing block
+      let depth = 1;
+      while (depth > 0 && this._position < this._tokens.length) {
+        const token = this._advance();
+        if (token.type === open) {
+          depth += 1;
+        } else if (token.type === close) {
+          depth -= 1;
+        }
+      }
     } else {
-      this._addError('Expect option (string, number, or boolean) value after "="');
-      value = {
-        type: ASTKind.STRING_LITERAL,
-        value: '',
-        position: this._createPosition(startToken.start, startToken.end, startToken),
-      };
+      this._expect(
+        close,
+        close === TokenType.RBRACE
+          ? 'Expect "}" after aggregate value'
+          : 'Expect ">" after aggregate value',
+      );
     }
+
+    return {
+      type: ASTKind.AGGREGATE,
+      fields,
+      position: this._createPosition(startToken.start, this._previous().end, startToken),
+    };
+  }
+
+  private _parseOption(): OptionNode {
+    const startToken = this._current();
+    this._expect(TokenType.OPTION, 'Expect "option" keyword');
+    const name = this._parseOptionName('Expect option name after "option" keyword');
+    this._expect(TokenType.EQUAL, 'Expect "=" after option name');
+    const value = this._parseOptionValue();
     this._expect(TokenType.SEMICOLON, 'Expect ";" after option value');
 
     return {
@@ -310,23 +778,9 @@ export class Parser {
     const options: FieldOptionNode[] = [];
     do {
       const startToken = this._current();
-      const name = this._parseIdentifier('Expect option name');
+      const name = this._parseOptionName('Expect option name');
       this._expect(TokenType.EQUAL, 'Expect "=" after option name');
-      let value: StringLiteralNode | NumberLiteralNode | BooleanLiteralNode;
-      if (this._check(TokenType.STRING_LITERAL)) {
-        value = this._parseStringLiteral('Expect option value after "="');
-      } else if (this._check(TokenType.NUMBER_LITERAL)) {
-        value = this._parseNumberLiteral('Expect option value after "="');
-      } else if (this._check(TokenType.TRUE) || this._check(TokenType.FALSE)) {
-        value = this._parseBooleanLiteral('Expect option value after "="');
-      } else {
-        this._addError('Expect option (string, number, or boolean) value after "="');
-        value = {
-          type: ASTKind.STRING_LITERAL,
-          value: '',
-          position: this._createPosition(startToken.start, startToken.end, startToken),
-        };
-      }
+      const value = this._parseOptionValue();
       options.push({
         type: ASTKind.FIELD_OPTION,
         name,
@@ -340,6 +794,7 @@ export class Parser {
   }
 
   private _parseEnumField(): EnumFieldNode {
+    const startIndex = this._position;
     const startToken = this._current();
     const name = this._parseIdentifier('Expect enum field name');
     this._expect(TokenType.EQUAL, 'Expect "=" after enum field name');
@@ -352,14 +807,44 @@ export class Parser {
       name,
       value,
       options,
+      comments: this._getComments(startIndex, this._position - 1),
       position: this._createPosition(startToken.start, startToken.end, startToken),
     };
   }
 
+  /** the end of a range may be `max`, which is kept as the literal value "max" */
+  private _parseRangeEnd(): NumberLiteralNode {
+    const startToken = this._current();
+    if (startToken.value === 'max') {
+      this._advance();
+      return {
+        type: ASTKind.NUMBER_LITERAL,
+        position: this._createPosition(startToken.start, startToken.end, startToken),
+        value: 'max',
+      };
+    }
+    return this._parseNumberLiteral('Expect number value after "to" keyword');
+  }
+
+  /** `reserved` statement in a message, a field of a type named `reserved` is followed by "=" */
+  private _isReservedStart(): boolean {
+    if (!this._check(TokenType.RESERVED)) {
+      return false;
+    }
+    const next = this._nextEffect();
+    if (next.type === TokenType.STRING_LITERAL || next.type === TokenType.NUMBER_LITERAL) {
+      return true;
+    }
+    const after = this._nextEffect(2).type;
+    return (
+      isValidIdentifier(next.value) && (after === TokenType.COMMA || after === TokenType.SEMICOLON)
+    );
+  }
+
   private _parseReserved(): ReservedNode {
     const startToken = this._current();
     this._expect(TokenType.RESERVED, 'Expect "reserved" keyword');
-    const ranges: (ToNode | NumberLiteralNode | StringLiteralNode)[] = [];
+    const ranges: ReservedNode['ranges'] = [];
 
     do {
       if (this._check(TokenType.NUMBER_LITERAL)) {
@@ -367,7 +852,7 @@ export class Parser {
           const toStartToken = this._current();
           const toStart = this._parseNumberLiteral('Expect number value');
           this._expect(TokenType.TO, 'Expect "to" keyword after number literal');
-          const toEnd = this._parseNumberLiteral('Expect number value after "to" keyword');
+          const toEnd = this._parseRangeEnd();
           ranges.push({
             type: ASTKind.TO,
             start: toStart,
@@ -385,8 +870,14 @@ export class Parser {
           'Expect (string, number) value after "reserved" keyword',
         );
         ranges.push(value);
+      } else if (isValidIdentifier(this._current().value)) {
+        // editions write reserved names as identifiers
+        ranges.push(this._parseIdentifier('Expect reserved name'));
       } else {
-        this._addError(`Unknown token in reserved ranges: ${this._current().value}`);
+        this._unexpected(
+          DiagnosticCode.UNEXPECTED_TOKEN,
+          `Unknown token in reserved ranges: ${this._current().value}`,
+        );
       }
     } while (this._match(TokenType.COMMA));
     this._expect(TokenType.SEMICOLON, 'Expect ";" after reserved ranges');
@@ -399,26 +890,34 @@ export class Parser {
   }
 
   private _parseEnum(): EnumNode {
+    const startIndex = this._position;
     const startToken = this._current();
     this._expect(TokenType.ENUM, 'Expect "enum" keyword');
     const name = this._parseIdentifier('Expect enum name after "enum" keyword');
-    this._expect(TokenType.LBRACE, 'Expect "{" after enum name');
+    const hasBody = this._expectBlockStart('Expect "{" after enum name');
+    const comments = this._getComments(startIndex, this._position - 1);
     const fields: EnumFieldNode[] = [];
     const reserved: ReservedNode[] = [];
     const options: OptionNode[] = [];
-    while (!this._check(TokenType.RBRACE) && this._position < this._tokens.length) {
+    while (hasBody && !this._isBlockEnd(startToken)) {
+      const statementStart = this._position;
       if (isValidIdentifier(this._current().value) && this._nextEffect().type === TokenType.EQUAL) {
         fields.push(this._parseEnumField());
       } else if (this._check(TokenType.OPTION)) {
         options.push(this._parseOption());
       } else if (this._check(TokenType.RESERVED)) {
         reserved.push(this._parseReserved());
-      } else {
-        this._addError(`Unknown token in enum: ${this._current().value}`);
-        this._position += 1;
+      } else if (!this._match(TokenType.SEMICOLON)) {
+        this._unexpected(
+          DiagnosticCode.UNEXPECTED_TOKEN,
+          `Unknown token in enum: ${this._current().value}`,
+        );
       }
+      this._synchronize(statementStart);
+    }
+    if (hasBody) {
+      this._expectBlockEnd('Expect "}" after enum fields');
     }
-    this._expect(TokenType.RBRACE, 'Expect "}" after enum fields');
 
     return {
       type: ASTKind.ENUM,
@@ -426,6 +925,7 @@ export class Parser {
       fields,
       reserved,
       options,
+      comments,
       position: this._createPosition(startToken.start, startToken.end, startToken),
     };
   }
@@ -433,7 +933,10 @@ export class Parser {
   private _parseLabel(): FiledLabelNode {
     const startToken = this._current();
     if (!isLabelToken(this._current())) {
-      this._addError('Expect (optional, required, repeated) label token');
+      this._unexpected(
+        DiagnosticCode.UNEXPECTED_TOKEN,
+        'Expect (optional, required, repeated) label token',
+      );
     }
     this._position += 1;
 
@@ -453,6 +956,20 @@ export class Parser {
         fieldArguments.push(this._parseQualifiedIdentifier('Expect field type argument'));
       } while (this._match(TokenType.COMMA));
       this._expect(TokenType.R_PARENTHESES, 'Expect ")" after field type arguments');
+    } else if (name === 'map' && this._match(TokenType.L_ANGLE)) {
+      const keyType = this._parseQualifiedIdentifier('Expect map key type after "<"');
+      if (!isValidMapKeyType(keyType.value)) {
+        this._addError(
+          DiagnosticCode.INVALID_MAP_KEY_TYPE,
+          `Invalid map key type: ${keyType.value}`,
+          undefined,
+          keyType.position,
+        );
+      }
+      fieldArguments.push(keyType);
+      this._expect(TokenType.COMMA, 'Expect "," after map key type');
+      fieldArguments.push(this._parseQualifiedIdentifier('Expect map value type after ","'));
+      this._expect(TokenType.R_ANGLE, 'Expect ">" after map value type');
     }
 
     return {
@@ -464,9 +981,18 @@ export class Parser {
   }
 
   private _parseField(): FieldNode {
+    const startIndex = this._position;
     const startToken = this._current();
     const label = isLabelToken(this._current()) ? this._parseLabel() : null;
     const fieldType = this._parseFieldType();
+    if (label !== null && fieldType.name === 'map' && fieldType.arguments.length > 0) {
+      this._addError(
+        DiagnosticCode.MAP_FIELD_LABEL,
+        'Map fields are not allowed to have a label',
+        undefined,
+        label.position,
+      );
+    }
     const name = this._parseIdentifier('Expect field name');
     this._expect(TokenType.EQUAL, 'Expect "=" after field name');
     const fieldNumber = this._parseNumberLiteral('Expect field number');
@@ -480,25 +1006,81 @@ export class Parser {
       fieldNumber,
       label,
       options,
+      group: false,
+      comments: this._getComments(startIndex, this._position - 1),
       position: this._createPosition(startToken.start, this._previous().end, startToken),
     };
   }
 
-  private _parseExtend(): ExtendNode {
+  /** `[label] group Name = 1 { ... }`, "group" is not a keyword, so a type may still be named "group" */
+  private _isGroupStart(): boolean {
+    const offset = isLabelToken(this._current()) ? 1 : 0;
+    const keyword = offset === 0 ? this._current() : this._nextEffect();
+    return (
+      keyword.type === TokenType.IDENTIFIER &&
+      keyword.value === 'group' &&
+      isIdentifierChar(this._nextEffect(offset + 1).value) &&
+      this._nextEffect(offset + 2).type === TokenType.EQUAL
+    );
+  }
+
+  /** a group declares a message in `messages` and a field of that type named after it in lower case */
+  private _parseGroup(messages: MessageNode[]): FieldNode {
+    const startIndex = this._position;
+    const startToken = this._current();
+    const label = isLabelToken(this._current()) ? this._parseLabel() : null;
+    this._advance();
+    const name = this._parseIdentifier('Expect group name after "group" keyword');
+    this._expect(TokenType.EQUAL, 'Expect "=" after group name');
+    const fieldNumber = this._parseNumberLiteral('Expect group number');
+    const options = this._parseFieldOptions();
+    const hasBody = this._expectBlockStart('Expect "{" after group number');
+    const comments = this._getComments(startIndex, this._position - 1);
+    const message = this._parseMessageBody(startToken, name, hasBody, comments);
+    messages.push(message);
+
+    return {
+      type: ASTKind.FIELD,
+      name: { ...name, value: name.value.toLowerCase() },
+      fieldType: {
+        type: ASTKind.FIELD_TYPE,
+        name: name.value,
+        arguments: [],
+        position: name.position,
+      },
+      fieldNumber,
+      label,
+      options,
+      group: true,
+      comments,
+      position: message.position,
+    };
+  }
+
+  /** groups in the extend declare their messages in `messages` */
+  private _parseExtend(messages: MessageNode[]): ExtendNode {
     const startToken = this._current();
     this._expect(TokenType.EXTEND, 'Expect "extend" keyword');
-    const name = this._parseIdentifier('Expect extend name after "extend" keyword');
-    this._expect(TokenType.LBRACE, 'Expect "{" after extend name');
+    const name = this._parseQualifiedIdentifier('Expect extend name after "extend" keyword');
+    const hasBody = this._expectBlockStart('Expect "{" after extend name');
     const fields: FieldNode[] = [];
-    while (!this._check(TokenType.RBRACE) && this._position < this._tokens.length) {
-      if (isIdentifierChar(this._current().value)) {
+    while (hasBody && !this._isBlockEnd(startToken)) {
+      const statementStart = this._position;
+      if (this._isGroupStart()) {
+        fields.push(this._parseGroup(messages));
+      } else if (this._isFieldStart()) {
         fields.push(this._parseField());
-      } else {
-        this._addError(`Unknown token in extend: ${this._current().value}`);
-        this._position += 1;
+      } else if (!this._match(TokenType.SEMICOLON)) {
+        this._unexpected(
+          DiagnosticCode.UNEXPECTED_TOKEN,
+          `Unknown token in extend: ${this._current().value}`,
+        );
       }
+      this._synchronize(statementStart);
+    }
+    if (hasBody) {
+      this._expectBlockEnd('Expect "}" after extend fields');
     }
-    this._expect(TokenType.RBRACE, 'Expect "}" after extend fields');
 
     return {
       type: ASTKind.EXTEND,
@@ -517,7 +1099,7 @@ export class Parser {
         const toStartToken = this._current();
         const toStart = this._parseNumberLiteral('Expect number value');
         this._expect(TokenType.TO, 'Expect "to" keyword after number literal');
-        const toEnd = this._parseNumberLiteral('Expect number value after "to" keyword');
+        const toEnd = this._parseRangeEnd();
         ranges.push({
           type: ASTKind.TO,
           start: toStart,
@@ -528,39 +1110,59 @@ export class Parser {
         ranges.push(this._parseNumberLiteral('Expect extensions range'));
       }
     } while (this._match(TokenType.COMMA));
+    // e.g. `[declaration = { number: 5, full_name: ".a.b", type: "int32" }]`
+    const options = this._parseFieldOptions();
     this._expect(TokenType.SEMICOLON, 'Expect ";" after extensions range');
 
     return {
       type: ASTKind.EXTENSIONS,
       ranges,
+      options,
       position: this._createPosition(startToken.start, this._previous().end, startToken),
     };
   }
 
-  private _parseOneof(): OneofNode {
+  /** groups in the oneof declare their messages in `messages` */
+  private _parseOneof(messages: MessageNode[]): OneofNode {
+    const startIndex = this._position;
     const startToken = this._current();
     this._expect(TokenType.ONEOF, 'Expect "oneof" keyword');
     const name = this._parseIdentifier('Expect oneof name after "oneof" keyword');
-    this._expect(TokenType.LBRACE, 'Expect "{" after oneof name');
+    const hasBody = this._expectBlockStart('Expect "{" after oneof name');
+    const comments = this._getComments(startIndex, this._position - 1);
     const fields: FieldNode[] = [];
-    while (!this._check(TokenType.RBRACE) && this._position < this._tokens.length) {
-      if (isIdentifierChar(this._current().value)) {
+    while (hasBody && !this._isBlockEnd(startToken)) {
+      const statementStart = this._position;
+      if (this._isGroupStart()) {
+        fields.push(this._parseGroup(messages));
+      } else if (this._isFieldStart()) {
         fields.push(this._parseField());
-      } else {
-        this._addError(`Unknown token in oneof: ${this._current().value}`);
-        this._position += 1;
+      } else if (!this._match(TokenType.SEMICOLON)) {
+        this._unexpected(
+          DiagnosticCode.UNEXPECTED_TOKEN,
+          `Unknown token in oneof: ${this._current().value}`,
+        );
       }
+      this._synchronize(statementStart);
+    }
+    if (hasBody) {
+      this._expectBlockEnd('Expect "}" after oneof fields');
     }
-    this._expect(TokenType.RBRACE, 'Expect "}" after oneof fields');
 
     return {
       type: ASTKind.ONEOF,
       name,
       fields,
+      comments,
       position: this._createPosition(startToken.start, this._previous().end, startToken),
     };
   }
 
+  private _isFieldStart(): boolean {
+    // field types may be fully qualified, e.g. ".foo.Bar"
+    return isIdentifierChar(this._current().value) || this._check(TokenType.DOT);
+  }
+
   private _isStatementStart(type: TokenType): boolean {
     return (
       this._check(type) &&
@@ -569,11 +1171,34 @@ export class Parser {
     );
   }
 
+  /** the extended type may be qualified, e.g. `extend google.protobuf.FieldOptions {` */
+  private _isExtendStart(): boolean {
+    const next = this._nextEffect();
+    return (
+      this._check(TokenType.EXTEND) &&
+      (isIdentifierChar(next.value) || next.type === TokenType.DOT) &&
+      this._nextEffect(2).type !== TokenType.EQUAL
+    );
+  }
+
   private _parseMessage(): MessageNode {
+    const startIndex = this._position;
     const startToken = this._current();
     this._expect(TokenType.MESSAGE, 'Expect "message" keyword');
     const name = this._parseIdentifier('Expect message name after "message" keyword');
-    this._expect(TokenType.LBRACE, 'Expect "{" after message name');
+    const hasBody = this._expectBlockStart('Expect "{" after message name');
+    const comments = this._getComments(startIndex, this._position - 1);
+    return this._parseMessageBody(startToken, name, hasBody, comments);
+  }
+
+  /** declarations of a message or group after the opening "{" */
+  private _parseMessageBody(
+    startToken: Token,
+    name: IdentifierNode,
+    hasBody: boolean,
+    comments: Comments,
+  ): MessageNode {
+    const options: OptionNode[] = [];
     const oneofs: OneofNode[] = [];
     const enums: EnumNode[] = [];
     let extensions: ExtensionsNode | null = null;
@@ -582,34 +1207,46 @@ export class Parser {
     const messages: MessageNode[] = [];
     const fields: FieldNode[] = [];
 
-    while (!this._check(TokenType.RBRACE) && this._position < this._tokens.length) {
+    while (hasBody && !this._isBlockEnd(startToken)) {
+      const statementStart = this._position;
       if (this._isStatementStart(TokenType.ONEOF)) {
-        oneofs.push(this._parseOneof());
+        oneofs.push(this._parseOneof(messages));
       } else if (this._isStatementStart(TokenType.ENUM)) {
         enums.push(this._parseEnum());
       } else if (
         this._check(TokenType.EXTENSIONS) &&
         this._nextEffect().type === TokenType.NUMBER_LITERAL
       ) {
-        extensions = this._parseExtensions();
-      } else if (this._isStatementStart(TokenType.EXTEND)) {
-        extendNodes.push(this._parseExtend());
-      } else if (
-        this._check(TokenType.RESERVED) &&
-        (this._nextEffect().type === TokenType.STRING_LITERAL ||
-          this._nextEffect().type === TokenType.NUMBER_LITERAL)
-      ) {
+        const node = this._parseExtensions();
+        if (extensions === null) {
+          extensions = node;
+        } else {
+          extensions.ranges.push(...node.ranges);
+          extensions.options.push(...node.options);
+        }
+      } else if (this._isExtendStart()) {
+        extendNodes.push(this._parseExtend(messages));
+      } else if (this._isReservedStart()) {
         reserved.push(this._parseReserved());
       } else if (this._isStatementStart(TokenType.MESSAGE)) {
         messages.push(this._parseMessage());
-      } else if (isIdentifierChar(this._current().value)) {
+      } else if (this._check(TokenType.OPTION)) {
+        options.push(this._parseOption());
+      } else if (this._isGroupStart()) {
+        fields.push(this._parseGroup(messages));
+      } else if (this._isFieldStart()) {
         fields.push(this._parseField());
-      } else {
-        this._addError(`Unknown token in message: ${this._current().value}`);
-        this._position += 1;
+      } else if (!this._match(TokenType.SEMICOLON)) {
+        this._unexpected(
+          DiagnosticCode.UNEXPECTED_TOKEN,
+          `Unknown token in message: ${this._current().value}`,
+        );
       }
+      this._synchronize(statementStart);
+    }
+    if (hasBody) {
+      this._expectBlockEnd('Expect "}" after message fields');
     }
-    this._expect(TokenType.RBRACE, 'Expect "}" after message fields');
 
     return {
       type: ASTKind.MESSAGE,
@@ -621,68 +1258,132 @@ export class Parser {
       extends: extendNodes,
       reserved,
       messages,
+      options,
+      comments,
       position: this._createPosition(startToken.start, this._previous().end, startToken),
     };
   }
 
+  private _parseStreamKeyword(): boolean {
+    // "stream" is not a reserved word, so a message may also be named "stream"
+    if (this._current().value !== 'stream') {
+      return false;
+    }
+    const next = this._nextEffect();
+    if (next.type === TokenType.DOT || isValidIdentifier(next.value)) {
+      this._advance();
+      return true;
+    }
+    return false;
+  }
+
+  private _parseRpcOptions(startToken: Token): OptionNode[] {
+    const options: OptionNode[] = [];
+    if (!this._match(TokenType.LBRACE)) {
+      this._expect(TokenType.SEMICOLON, 'Expect ";" after rpc method');
+      return options;
+    }
+    while (!this._isBlockEnd(startToken)) {
+      const statementStart = this._position;
+      if (this._check(TokenType.OPTION)) {
+        options.push(this._parseOption());
+      } else if (!this._match(TokenType.SEMICOLON)) {
+        this._unexpected(
+          DiagnosticCode.UNEXPECTED_TOKEN,
+          `Unknown token in rpc method: ${this._current().value}`,
+        );
+      }
+      this._synchronize(statementStart);
+    }
+    this._expectBlockEnd('Expect "}" after rpc method options');
+    // a trailing ";" after the body is allowed
+    this._match(TokenType.SEMICOLON);
+
+    return options;
+  }
+
   private _parseRpcMethod(): RpcMethodNode {
+    const startIndex = this._position;
     const startToken = this._current();
     this._expect(TokenType.RPC, 'Expect "rpc" keyword');
     const name = this._parseIdentifier('Expect rpc method name after "rpc" keyword');
 
     this._expect(TokenType.L_PARENTHESES, 'Expect "(" after rpc method name');
-    const inputType = this._parseIdentifier('Expect request type after "("');
+    const clientStreaming = this._parseStreamKeyword();
+    const inputType = this._parseQualifiedIdentifier('Expect request type after "("');
     this._expect(TokenType.R_PARENTHESES, 'Expect ")" after request type');
 
     this._expect(TokenType.RETURNS, 'Expect "returns" keyword');
 
     this._expect(TokenType.L_PARENTHESES, 'Expect "(" after "returns" keyword');
-    const outputType = this._parseIdentifier('Expect response type after "returns" keyword');
+    const serverStreaming = this._parseStreamKeyword();
+    const outputType = this._parseQualifiedIdentifier(
+      'Expect response type after "returns" keyword',
+    );
     this._expect(TokenType.R_PARENTHESES, 'Expect ")" after response type');
 
-    this._expect(TokenType.SEMICOLON, 'Expect ";" after rpc method');
+    const comments = this._getComments(startIndex, this._position);
+    const options = this._parseRpcOptions(startToken);
 
     return {
       type: ASTKind.RPC_METHOD,
       name,
       inputType,
       outputType,
+      clientStreaming,
+      serverStreaming,
+      options,
+      comments,
       position: this._createPosition(startToken.start, this._previous().end, startToken),
     };
   }
 
   private _parseService(): ServiceNode {
+    const startIndex = this._position;
     const startToken = this._current();
     this._expect(TokenType.SERVICE, 'Expect "service" keyword');
     const name = this._parseIdentifier('Expect service name after "service" keyword');
-    this._expect(TokenType.LBRACE, 'Expect "{" after service name');
+    const hasBody = this._expectBlockStart('Expect "{" after service name');
+    const comments = this._getComments(startIndex, this._position - 1);
     const methods: RpcMethodNode[] = [];
-    while (!this._check(TokenType.RBRACE) && this._position < this._tokens.length) {
-      if (isIdentifierChar(this._current().value)) {
+    const options: OptionNode[] = [];
+    while (hasBody && !this._isBlockEnd(startToken)) {
+      const statementStart = this._position;
+      if (this._check(TokenType.OPTION)) {
+        options.push(this._parseOption());
+      } else if (isIdentifierChar(this._current().value)) {
         methods.push(this._parseRpcMethod());
-      } else {
-        this._addError(`Unknown token in service: ${this._current().value}`);
-        this._position += 1;
+      } else if (!this._match(TokenType.SEMICOLON)) {
+        this._unexpected(
+          DiagnosticCode.UNEXPECTED_TOKEN,
+          `Unknown token in service: ${this._current().value}`,
+        );
       }
+      this._synchronize(statementStart);
+    }
+    if (hasBody) {
+      this._expectBlockEnd('Expect "}" after service methods');
     }
-    this._expect(TokenType.RBRACE, 'Expect "}" after service methods');
 
     return {
       type: ASTKind.SERVICE,
       name,
       methods,
+      options,
+      comments,
       position: this._createPosition(startToken.start, this._previous().end, startToken),
     };
   }
 
   parse(): ParserOutput {
-    // filter comment token
-    this._tokens = this._tokens.filter((token) => token.type !== TokenType.COMMENT);
+    // comment tokens are moved out of the token stream and attached to declarations later
+    this._collectComments();
 
     const protoFile: ProtoFileNode = {
       type: ASTKind.PROTO_FILE,
-      position: this._createPosition(0, this._tokens[this._tokens.length - 1].end, this._tokens[0]),
+      position: this._createPosition(0, this._eof.end, this._tokens[0] ?? this._eof),
       syntax: null,
+      edition: null,
       package: null,
       imports: [],
       options: [],
@@ -693,9 +1394,15 @@ export class Parser {
     };
     if (this._check(TokenType.SYNTAX)) {
       protoFile.syntax = this._parseSyntax();
+      this._synchronize(0);
+    } else if (this._current().value === 'edition' && this._nextEffect().type === TokenType.EQUAL) {
+      // "edition" is not a keyword, a message may still be named "edition"
+      protoFile.edition = this._parseEdition();
+      this._synchronize(0);
     }
 
     while (this._position < this._tokens.length) {
+      const statementStart = this._position;
       if (this._check(TokenType.PACKAGE)) {
         protoFile.package = this._parsePackage();
       } else if (this._check(TokenType.IMPORT)) {
@@ -705,17 +1412,18 @@ export class Parser {
       } else if (this._check(TokenType.ENUM)) {
         protoFile.enums.push(this._parseEnum());
       } else if (this._check(TokenType.EXTEND)) {
-        protoFile.extends.push(this._parseExtend());
+        protoFile.extends.push(this._parseExtend(protoFile.messages));
       } else if (this._check(TokenType.MESSAGE)) {
         protoFile.messages.push(this._parseMessage());
       } else if (this._check(TokenType.SERVICE)) {
         protoFile.services.push(this._parseService());
-      } else {
-        if (!this._check(TokenType.SEMICOLON)) {
-          this._addError(`Unknown token in proto file: ${this._current().value}`);
-        }
-        this._position += 1;
+      } else if (!this._match(TokenType.SEMICOLON)) {
+        this._unexpected(
+          DiagnosticCode.UNEXPECTED_TOKEN,
+          `Unknown token in proto file: ${this._current().value}`,
+        );
       }
+      this._synchronize(statementStart);
     }
 
     return { ast: protoFile, errors: this._errors };
@@ -1,4 +1,5 @@
 import { TokenType, type Token } from '@/lexer/TokenType';
+import { ASTKind, type FieldOptionNode, type OptionNode } from './ASTType';
 
 export function isValidIdentifier(name: string): boolean {
   return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name);
@@ -11,3 +12,143 @@ export function isLabelToken(token: Token): boolean {
     token.type === TokenType.REPEATED
   );
 }
+
+const DECLARATION_KEYWORDS: Set<TokenType> = new Set([
+  TokenType.SYNTAX,
+  TokenType.PACKAGE,
+  TokenType.IMPORT,
+  TokenType.OPTION,
+  TokenType.MESSAGE,
+  TokenType.ENUM,
+  TokenType.SERVICE,
+  TokenType.EXTEND,
+  TokenType.EXTENSIONS,
+  TokenType.RESERVED,
+  TokenType.ONEOF,
+  TokenType.RPC,
+  TokenType.OPTIONAL,
+  TokenType.REQUIRED,
+  TokenType.REPEATED,
+  TokenType.MAP,
+  TokenType.DOUBLE,
+  TokenType.FLOAT,
+  TokenType.INT32,
+  TokenType.INT64,
+  TokenType.UINT32,
+  TokenType.UINT64,
+  TokenType.SINT32,
+  TokenType.SINT64,
+  TokenType.FIXED32,
+  TokenType.FIXED64,
+  TokenType.SFIXED32,
+  TokenType.SFIXED64,
+  TokenType.BOOL,
+  TokenType.STRING,
+  TokenType.BYTES,
+]);
+
+/** keywords that start a statement, used to resynchronize after a syntax error */
+export function isDeclarationKeyword(token: Token): boolean {
+  return DECLARATION_KEYWORDS.has(token.type);
+}
+
+/** map keys may be any integral or string scalar type, but not floats, bytes, enums or messages */
+const MAP_KEY_TYPES = new Set([
+  'int32',
+  'int64',
+  'uint32',
+  'uint64',
+  'sint32',
+  'sint64',
+  'fixed32',
+  'fixed64',
+  'sfixed32',
+  'sfixed64',
+  'bool',
+  'string',
+]);
+
+export function isValidMapKeyType(name: string): boolean {
+  return MAP_KEY_TYPES.has(name);
+}
+
+const SCALAR_TYPES = new Set([...MAP_KEY_TYPES, 'double', 'float', 'bytes']);
+
+export function isScalarType(name: string): boolean {
+  return SCALAR_TYPES.has(name);
+}
+
+/** line of the last character of a token, comments may span several lines */
+export function getEndLine(token: Token): number {
+  return token.line + token.value.split('\n').length - 1;
+}
+
+/** comment text without the comment markers */
+export function getCommentText(token: Token): string {
+  if (token.value.startsWith('//')) {
+    return token.value.slice(2);
+  }
+  const lines = token.value
+    .slice(2, -2)
+    .replace(/^\*/, '')
+    .split('\n')
+    .map((line) => line.replace(/^\s*\* ?/, ''));
+  while (lines.length > 0 && lines[0].trim() === '') {
+    lines.shift();
+  }
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop();
+  }
+  return lines.join('\n');
+}
+
+/** decimal digits of an integer literal, exact for 64-bit values, `null` when it is not an integer */
+export function getIntegerDigits(value: string): string | null {
+  const negative = value.startsWith('-');
+  const digits = negative || value.startsWith('+') ? value.slice(1) : value;
+  if (!/^(0[xX][0-9a-fA-F]+|0[0-7]*|[1-9][0-9]*)$/.test(digits)) {
+    return null;
+  }
+  const integer = BigInt(/^0[0-7]+$/.test(digits) ? `0o${digits.slice(1)}` : digits);
+  return String(negative ? -integer : integer);
+}
+
+/** value of a decimal, hexadecimal or octal integer literal, `NaN` when it is not an integer */
+export function parseIntegerLiteral(value: string): number {
+  const negative = value.startsWith('-');
+  const digits = negative || value.startsWith('+') ? value.slice(1) : value;
+  let result = NaN;
+  if (/^0[xX][0-9a-fA-F]+$/.test(digits)) {
+    result = parseInt(digits.slice(2), 16);
+  } else if (/^0[0-7]+$/.test(digits)) {
+    result = parseInt(digits.slice(1), 8);
+  } else if (/^(0|[1-9][0-9]*)$/.test(digits)) {
+    result = parseInt(digits, 10);
+  }
+  return negative ? -result : result;
+}
+
+/** the last option named `name`, later options override earlier ones */
+export function findOption<T extends OptionNode | FieldOptionNode>(
+  options: T[],
+  name: string,
+): T | null {
+  for (let i = options.length - 1; i >= 0; i -= 1) {
+    if (options[i].name.value === name) {
+      return options[i];
+    }
+  }
+  return null;
+}
+
+/** value of the last option named `name`, `null` when it is not set or is an aggregate */
+export function getOptionValue(
+  options: (OptionNode | FieldOptionNode)[],
+  name: string,
+): string | boolean | null {
+  const option = findOption(options, name);
+  if (option === null || option.value.type === ASTKind.AGGREGATE) {
+    return null;
+  }
+  return option.value.value;
+}
@@ -0,0 +1,167 @@
+import type {
+  ExtendNode,
+  FieldNode,
+  FieldTypeNode,
+  IdentifierNode,
+  MessageNode,
+  Position,
+  ProtoFileNode,
+} from '@/parser/ASTType';
+import { DiagnosticCode, type Severity } from '@/diagnostic/define';
+import { isScalarType } from '@/parser/helper';
+import { SymbolKind, type SymbolTable, type TypeSymbol } from './SymbolTable';
+
+/** resolved symbol of every type reference, keyed by the referencing node */
+export type ReferenceMap = Map<FieldTypeNode | IdentifierNode, TypeSymbol>;
+
+export interface ResolverError {
+  code: DiagnosticCode;
+  severity: Severity;
+  message: string;
+  position: Position;
+}
+
+interface ResolverOutput {
+  references: ReferenceMap;
+  errors: ResolverError[];
+}
+
+export class Resolver {
+  private _table: SymbolTable;
+  private _ast: ProtoFileNode;
+  private _visibleFiles: Set<string>;
+  /** report names that cannot be resolved as info, used when imported files are unknown */
+  private _allowUnresolved: boolean;
+  private _references: ReferenceMap = new Map();
+  private _errors: ResolverError[] = [];
+
+  constructor(
+    table: SymbolTable,
+    ast: ProtoFileNode,
+    visibleFiles: string[],
+    allowUnresolved: boolean = false,
+  ) {
+    this._table = table;
+    this._ast = ast;
+    this._visibleFiles = new Set(visibleFiles);
+    this._allowUnresolved = allowUnresolved;
+  }
+
+  private _lookupType(fullName: string): TypeSymbol | null {
+    const symbol = this._table.lookup(fullName, this._visibleFiles);
+    if (symbol === null || symbol.kind === SymbolKind.PACKAGE) {
+      return null;
+    }
+    return symbol;
+  }
+
+  /**
+   * protobuf scoping rules: the first part of a relative name is searched from the innermost
+   * scope outwards, the rest of the name is then resolved relative to the first match
+   */
+  private _lookup(name: string, scope: string): TypeSymbol | null {
+    if (name.startsWith('.')) {
+      return this._lookupType(name.slice(1));
+    }
+
+    const firstPart = name.split('.')[0];
+    let currentScope = scope;
+    while (true) {
+      const candidate = currentScope ? `${currentScope}.${firstPart}` : firstPart;
+      const symbol = this._table.lookup(candidate, this._visibleFiles);
+      if (symbol !== null) {
+        if (firstPart === name) {
+          return symbol.kind === SymbolKind.PACKAGE ? null : symbol;
+        }
+        // only packages and messages can contain other types
+        if (symbol.kind !== SymbolKind.ENUM) {
+          return this._lookupType(`${candidate}${name.slice(firstPart.length)}`);
+        }
+      }
+      if (currentScope === '') {
+        return null;
+      }
+      const index = currentScope.lastIndexOf('.');
+      currentScope = index < 0 ? '' : currentScope.slice(0, index);
+    }
+  }
+
+  private _resolve(node: FieldTypeNode | IdentifierNode, name: string, scope: string) {
+    const symbol = this._lookup(name, scope);
+    if (symbol !== null) {
+      this._references.set(node, symbol);
+    } else if (this._allowUnresolved) {
+      this._errors.push({
+        code: DiagnosticCode.UNRESOLVED_TYPE,
+        severity: 'info',
+        message: `"${name}" is not defined in this file and is emitted as written`,
+        position: node.position,
+      });
+    } else {
+      this._errors.push({
+        code: DiagnosticCode.UNDEFINED_TYPE,
+        severity: 'error',
+        message: `"${name}" is not defined`,
+        position: node.position,
+      });
+    }
+  }
+
+  private _resolveField(node: FieldNode, scope: string) {
+    const fieldType = node.fieldType;
+    if (fieldType.name === 'map' && fieldType.arguments.length === 2) {
+      const valueType = fieldType.arguments[1];
+      if (!isScalarType(valueType.value)) {
+        this._resolve(valueType, valueType.value, scope);
+      }
+      return;
+    }
+    if (!isScalarType(fieldType.name)) {
+      this._resolve(fieldType, fieldType.name, scope);
+    }
+  }
+
+  private _resolveExtend(node: ExtendNode, scope: string) {
+    this._resolve(node.name, node.name.value, scope);
+    for (let i = 0; i < node.fields.length; i += 1) {
+      this._resolveField(node.fields[i], scope);
+    }
+  }
+
+  private _resolveMessage(node: MessageNode, parentScope: string) {
+    const scope = parentScope ? `${parentScope}.${node.name.value}` : node.name.value;
+    for (let i = 0; i < node.fields.length; i += 1) {
+      this._resolveField(node.fields[i], scope);
+    }
+    for (let i = 0; i < node.oneofs.length; i += 1) {
+      for (let j = 0; j < node.oneofs[i].fields.length; j += 1) {
+        this._resolveField(node.oneofs[i].fields[j], scope);
+      }
+    }
+    for (let i = 0; i < node.extends.length; i += 1) {
+      this._resolveExtend(node.extends[i], scope);
+    }
+    for (let i = 0; i < node.messages.length; i += 1) {
+      this._resolveMessage(node.messages[i], scope);
+    }
+  }
+
+  resolve(): ResolverOutput {
+    const scope = this._ast.package?.name.value ?? '';
+    for (let i = 0; i < this._ast.messages.length; i += 1) {
+      this._resolveMessage(this._ast.messages[i], scope);
+    }
+    for (let i = 0; i < this._ast.extends.length; i += 1) {
+      this._resolveExtend(this._ast.extends[i], scope);
+    }
+    for (let i = 0; i < this._ast.services.length; i += 1) {
+      const methods = this._ast.services[i].methods;
+      for (let j = 0; j < methods.length; j += 1) {
+        this._resolve(methods[j].inputType, methods[j].inputType.value, scope);
+        this._resolve(methods[j].outputType, methods[j].outputType.value, scope);
+      }
+    }
+
+    return { references: this._references, errors: this._errors };
+  }
+}
@@ -0,0 +1,147 @@
+import type { EnumNode, MessageNode, ProtoFileNode } from '@/parser/ASTType';
+import { getDefaultFeatures, resolveFeatures, type Features } from './features';
+
+export const enum SymbolKind {
+  PACKAGE,
+  MESSAGE,
+  ENUM,
+}
+
+export interface PackageSymbol {
+  kind: SymbolKind.PACKAGE;
+  /** fully qualified name without leading dot, e.g. `foo.bar` */
+  fullName: string;
+  /** files declaring the package or one of its sub packages */
+  files: Set<string>;
+}
+
+export interface MessageSymbol {
+  kind: SymbolKind.MESSAGE;
+  /** fully qualified name without leading dot, e.g. `foo.bar.Outer.Inner` */
+  fullName: string;
+  packageName: string;
+  /** names from the package down to the symbol, e.g. `['Outer', 'Inner']` */
+  path: string[];
+  /** path of the proto file declaring the symbol */
+  file: string;
+  node: MessageNode;
+}
+
+export interface EnumSymbol {
+  kind: SymbolKind.ENUM;
+  fullName: string;
+  packageName: string;
+  path: string[];
+  file: string;
+  node: EnumNode;
+  /** values that are not declared are unknown fields, as for proto2 enums */
+  closed: boolean;
+}
+
+export type TypeSymbol = MessageSymbol | EnumSymbol;
+
+export type ProtoSymbol = PackageSymbol | TypeSymbol;
+
+export class SymbolTable {
+  private _symbols: Map<string, ProtoSymbol> = new Map();
+
+  private _addPackage(packageName: string, file: string) {
+    const parts = packageName.split('.');
+    for (let i = 1; i <= parts.length; i += 1) {
+      const fullName = parts.slice(0, i).join('.');
+      const symbol = this._symbols.get(fullName);
+      if (symbol === undefined) {
+        this._symbols.set(fullName, { kind: SymbolKind.PACKAGE, fullName, files: new Set([file]) });
+      } else if (symbol.kind === SymbolKind.PACKAGE) {
+        symbol.files.add(file);
+      }
+    }
+  }
+
+  private _addEnum(
+    node: EnumNode,
+    packageName: string,
+    parentPath: string[],
+    file: string,
+    parentFeatures: Features,
+  ) {
+    const path = [...parentPath, node.name.value];
+    const fullName = [packageName, ...path].filter(Boolean).join('.');
+    if (!this._symbols.has(fullName)) {
+      this._symbols.set(fullName, {
+        kind: SymbolKind.ENUM,
+        fullName,
+        packageName,
+        path,
+        file,
+        node,
+        closed: resolveFeatures(parentFeatures, node.options).enumType === 'CLOSED',
+      });
+    }
+  }
+
+  private _addMessage(
+    node: MessageNode,
+    packageName: string,
+    parentPath: string[],
+    file: string,
+    parentFeatures: Features,
+  ) {
+    const path = [...parentPath, node.name.value];
+    const fullName = [packageName, ...path].filter(Boolean).join('.');
+    if (!this._symbols.has(fullName)) {
+      this._symbols.set(fullName, {
+        kind: SymbolKind.MESSAGE,
+        fullName,
+        packageName,
+        path,
+        file,
+        node,
+      });
+    }
+    const features = resolveFeatures(parentFeatures, node.options);
+    for (let i = 0; i < node.enums.length; i += 1) {
+      this._addEnum(node.enums[i], packageName, path, file, features);
+    }
+    for (let i = 0; i < node.messages.length; i += 1) {
+      this._addMessage(node.messages[i], packageName, path, file, features);
+    }
+  }
+
+  /** register every type declared in a file, the first declaration of a name wins */
+  addFile(file: string, ast: ProtoFileNode): void {
+    const packageName = ast.package?.name.value ?? '';
+    if (packageName) {
+      this._addPackage(packageName, file);
+    }
+    const features = resolveFeatures(getDefaultFeatures(ast), ast.options);
+    for (let i = 0; i < ast.enums.length; i += 1) {
+      this._addEnum(ast.enums[i], packageName, [], file, features);
+    }
+    for (let i = 0; i < ast.messages.length; i += 1) {
+      this._addMessage(ast.messages[i], packageName, [], file, features);
+    }
+  }
+
+  /** look up a fully qualified name in every file */
+  get(fullName: string): ProtoSymbol | null {
+    return this._symbols.get(fullName) ?? null;
+  }
+
+  /** look up a fully qualified name, only symbols declared in `files` are visible */
+  lookup(fullName: string, files: Set<string>): ProtoSymbol | null {
+    const symbol = this._symbols.get(fullName);
+    if (symbol === undefined) {
+      return null;
+    }
+    if (symbol.kind === SymbolKind.PACKAGE) {
+      for (const file of symbol.files) {
+        if (files.has(file)) {
+          return symbol;
+        }
+      }
+      return null;
+    }
+    return files.has(symbol.file) ? symbol : null;
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  ASTKind,
+  type AggregateValueNode,
+  type FieldNode,
+  type FieldOptionNode,
+  type OptionNode,
+  type ProtoFileNode,
+} from '@/parser/ASTType';
+
+/** resolved values of the `google.protobuf.FeatureSet` features */
+export interface Features {
+  fieldPresence: 'EXPLICIT' | 'IMPLICIT' | 'LEGACY_REQUIRED';
+  enumType: 'OPEN' | 'CLOSED';
+  repeatedFieldEncoding: 'PACKED' | 'EXPANDED';
+  utf8Validation: 'VERIFY' | 'NONE';
+  messageEncoding: 'LENGTH_PREFIXED' | 'DELIMITED';
+  jsonFormat: 'ALLOW' | 'LEGACY_BEST_EFFORT';
+}
+
+/** accepted values of every feature, keyed by the feature name used in options */
+const FEATURE_VALUES: Record<string, [keyof Features, string[]]> = {
+  field_presence: ['fieldPresence', ['EXPLICIT', 'IMPLICIT', 'LEGACY_REQUIRED']],
+  enum_type: ['enumType', ['OPEN', 'CLOSED']],
+  repeated_field_encoding: ['repeatedFieldEncoding', ['PACKED', 'EXPANDED']],
+  utf8_validation: ['utf8Validation', ['VERIFY', 'NONE']],
+  message_encoding: ['messageEncoding', ['LENGTH_PREFIXED', 'DELIMITED']],
+  json_format: ['jsonFormat', ['ALLOW', 'LEGACY_BEST_EFFORT']],
+};
+
+const PROTO2_FEATURES: Features = {
+  fieldPresence: 'EXPLICIT',
+  enumType: 'CLOSED',
+  repeatedFieldEncoding: 'EXPANDED',
+  utf8Validation: 'NONE',
+  messageEncoding: 'LENGTH_PREFIXED',
+  jsonFormat: 'LEGACY_BEST_EFFORT',
+};
+
+const PROTO3_FEATURES: Features = {
+  fieldPresence: 'IMPLICIT',
+  enumType: 'OPEN',
+  repeatedFieldEncoding: 'PACKED',
+  utf8Validation: 'VERIFY',
+  messageEncoding: 'LENGTH_PREFIXED',
+  jsonFormat: 'ALLOW',
+};
+
+const EDITION_2023_FEATURES: Features = {
+  fieldPresence: 'EXPLICIT',
+  enumType: 'OPEN',
+  repeatedFieldEncoding: 'PACKED',
+  utf8Validation: 'VERIFY',
+  messageEncoding: 'LENGTH_PREFIXED',
+  jsonFormat: 'ALLOW',
+};
+
+/** 2024 only changes features that do not affect the generated types */
+const EDITION_FEATURES: Record<string, Features> = {
+  '2023': EDITION_2023_FEATURES,
+  '2024': EDITION_2023_FEATURES,
+};
+
+export function isSupportedEdition(edition: string): boolean {
+  return Object.hasOwn(EDITION_FEATURES, edition);
+}
+
+/** features of the file before any `features` option, given by its edition or syntax */
+export function getDefaultFeatures(ast: ProtoFileNode): Features {
+  if (ast.edition !== null) {
+    return EDITION_FEATURES[ast.edition.edition.value] ?? EDITION_2023_FEATURES;
+  }
+  return ast.syntax?.version.value === 'proto3' ? PROTO3_FEATURES : PROTO2_FEATURES;
+}
+
+/** name of the feature set by an option such as `features.field_presence`, if any */
+export function getFeatureName(optionName: string): string | null {
+  return optionName.startsWith('features.') ? optionName.slice('features.'.length) : null;
+}
+
+/** whether `value` is accepted by the feature `name`, unknown features are ignored */
+export function isValidFeatureValue(name: string, value: AggregateValueNode): boolean {
+  if (!Object.hasOwn(FEATURE_VALUES, name)) {
+    return true;
+  }
+  return value.type === ASTKind.IDENTIFIER && FEATURE_VALUES[name][1].includes(value.value);
+}
+
+function setFeature(features: Features, name: string, value: AggregateValueNode) {
+  if (!Object.hasOwn(FEATURE_VALUES, name) || value.type !== ASTKind.IDENTIFIER) {
+    return;
+  }
+  const [key, values] = FEATURE_VALUES[name];
+  if (values.includes(value.value)) {
+    Object.assign(features, { [key]: value.value });
+  }
+}
+
+/** features of a declaration, inherited from `parent` and overridden by its `features` options */
+export function resolveFeatures(
+  parent: Features,
+  options: (OptionNode | FieldOptionNode)[],
+): Features {
+  const features = { ...parent };
+  for (let i = 0; i < options.length; i += 1) {
+    const { name, value } = options[i];
+    const featureName = getFeatureName(name.value);
+    if (featureName !== null) {
+      setFeature(features, featureName, value);
+    } else if (name.value === 'features' && value.type === ASTKind.AGGREGATE) {
+      for (let j = 0; j < value.fields.length; j += 1) {
+        setFeature(features, value.fields[j].name.value, value.fields[j].value);
+      }
+    }
+  }
+  return features;
+}
+
+/** features of a field, the proto2 and proto3 `optional` and `required` labels set its presence */
+export function resolveFieldFeatures(parent: Features, field: FieldNode): Features {
+  const features = resolveFeatures(parent, field.options);
+  if (field.label?.value === 'optional') {
+    features.fieldPresence = 'EXPLICIT';
+  } else if (field.label?.value === 'required') {
+    features.fieldPresence = 'LEGACY_REQUIRED';
+  }
+  return features;
+}
@@ -0,0 +1,665 @@
+import type {
+  AggregateValueNode,
+  EnumNode,
+  ExtendNode,
+  ExtensionsNode,
+  FieldNode,
+  FieldOptionNode,
+  MessageNode,
+  NumberLiteralNode,
+  OneofNode,
+  OptionNode,
+  Position,
+  ProtoFileNode,
+  ReservedNode,
+  ServiceNode,
+  ToNode,
+} from '@/parser/ASTType';
+import { DiagnosticCode, type Severity } from '@/diagnostic/define';
+import { ASTKind } from '@/parser/ASTType';
+import {
+  findOption,
+  getIntegerDigits,
+  getOptionValue,
+  isScalarType,
+  parseIntegerLiteral,
+} from '@/parser/helper';
+import {
+  getDefaultFeatures,
+  getFeatureName,
+  isSupportedEdition,
+  isValidFeatureValue,
+  resolveFeatures,
+  type Features,
+} from '@/resolver/features';
+import type { ReferenceMap } from '@/resolver/Resolver';
+import { SymbolKind, type SymbolTable } from '@/resolver/SymbolTable';
+
+export interface ValidatorError {
+  code: DiagnosticCode;
+  severity: Severity;
+  message: string;
+  position: Position;
+}
+
+interface ValidatorOutput {
+  errors: ValidatorError[];
+}
+
+const MAX_FIELD_NUMBER = 536870911;
+/** field options of protoc-gen-validate and protovalidate */
+const RULE_OPTIONS = ['(validate.rules)', '(buf.validate.field)'];
+const MAX_ENUM_VALUE = 2147483647;
+const FIRST_RESERVED_FIELD_NUMBER = 19000;
+
+/** smallest and largest value of each integer type, for the defaults of fields */
+const INTEGER_RANGES: Record<string, [bigint, bigint]> = {
+  int32: [-(2n ** 31n), 2n ** 31n - 1n],
+  sint32: [-(2n ** 31n), 2n ** 31n - 1n],
+  sfixed32: [-(2n ** 31n), 2n ** 31n - 1n],
+  uint32: [0n, 2n ** 32n - 1n],
+  fixed32: [0n, 2n ** 32n - 1n],
+  int64: [-(2n ** 63n), 2n ** 63n - 1n],
+  sint64: [-(2n ** 63n), 2n ** 63n - 1n],
+  sfixed64: [-(2n ** 63n), 2n ** 63n - 1n],
+  uint64: [0n, 2n ** 64n - 1n],
+  fixed64: [0n, 2n ** 64n - 1n],
+};
+const LAST_RESERVED_FIELD_NUMBER = 19999;
+
+interface NumberRange {
+  start: number;
+  end: number;
+}
+
+function getRange(node: NumberLiteralNode | ToNode, max: number): NumberRange {
+  if (node.type === ASTKind.TO) {
+    const end = node.end.value === 'max' ? max : parseIntegerLiteral(node.end.value);
+    return { start: parseIntegerLiteral(node.start.value), end };
+  }
+  const value = parseIntegerLiteral(node.value);
+  return { start: value, end: value };
+}
+
+function inRanges(value: number, ranges: NumberRange[]): boolean {
+  return ranges.some((range) => value >= range.start && value <= range.end);
+}
+
+export class Validator {
+  private _ast: ProtoFileNode;
+  private _table: SymbolTable;
+  private _references: ReferenceMap;
+  private _errors: ValidatorError[] = [];
+
+  constructor(ast: ProtoFileNode, table: SymbolTable, references: ReferenceMap) {
+    this._ast = ast;
+    this._table = table;
+    this._references = references;
+  }
+
+  private _addError(code: DiagnosticCode, message: string, position: Position) {
+    this._errors.push({ code, severity: 'error', message, position });
+  }
+
+  private _addWarning(code: DiagnosticCode, message: string, position: Position) {
+    this._errors.push({ code, severity: 'warning', message, position });
+  }
+
+  private _isProto3(): boolean {
+    return this._ast.syntax?.version.value === 'proto3';
+  }
+
+  private _getReservedRanges(reserved: ReservedNode[], max: number): NumberRange[] {
+    const ranges: NumberRange[] = [];
+    for (let i = 0; i < reserved.length; i += 1) {
+      for (let j = 0; j < reserved[i].ranges.length; j += 1) {
+        const range = reserved[i].ranges[j];
+        if (range.type !== ASTKind.STRING_LITERAL && range.type !== ASTKind.IDENTIFIER) {
+          ranges.push(getRange(range, max));
+        }
+      }
+    }
+    return ranges;
+  }
+
+  private _getReservedNames(reserved: ReservedNode[]): Set<string> {
+    const names = new Set<string>();
+    for (let i = 0; i < reserved.length; i += 1) {
+      for (let j = 0; j < reserved[i].ranges.length; j += 1) {
+        const range = reserved[i].ranges[j];
+        if (range.type === ASTKind.STRING_LITERAL || range.type === ASTKind.IDENTIFIER) {
+          names.add(range.value);
+        }
+      }
+    }
+    return names;
+  }
+
+  /** reserved names are identifiers in editions and string literals before */
+  private _validateReservedNames(reserved: ReservedNode[]) {
+    const isEditions = this._ast.edition !== null;
+    for (let i = 0; i < reserved.length; i += 1) {
+      for (let j = 0; j < reserved[i].ranges.length; j += 1) {
+        const range = reserved[i].ranges[j];
+        if (isEditions && range.type === ASTKind.STRING_LITERAL) {
+          this._addError(
+            DiagnosticCode.INVALID_RESERVED_NAME,
+            `Reserved names must be identifiers in editions, not string literals: "${range.value}"`,
+            range.position,
+          );
+        } else if (!isEditions && range.type === ASTKind.IDENTIFIER) {
+          this._addError(
+            DiagnosticCode.INVALID_RESERVED_NAME,
+            `Reserved names must be string literals, only editions allow identifiers: ${range.value}`,
+            range.position,
+          );
+        }
+      }
+    }
+  }
+
+  private _getExtensionRanges(node: ExtensionsNode | null): NumberRange[] {
+    return node?.ranges.map((range) => getRange(range, MAX_FIELD_NUMBER)) ?? [];
+  }
+
+  /** a type name may only be declared once in its scope, across every file of the project */
+  private _validateTypeName(node: MessageNode | EnumNode, fullName: string) {
+    const symbol = this._table.get(fullName);
+    if (symbol !== null && symbol.kind !== SymbolKind.PACKAGE && symbol.node !== node) {
+      const index = fullName.lastIndexOf('.');
+      const scope = index < 0 ? '' : fullName.slice(0, index);
+      const where = scope ? ` in "${scope}"` : '';
+      this._addError(
+        DiagnosticCode.DUPLICATE_TYPE_NAME,
+        `"${node.name.value}" is already defined${where}`,
+        node.name.position,
+      );
+    }
+  }
+
+  private _validateFieldNumber(field: FieldNode): number {
+    const value = parseIntegerLiteral(field.fieldNumber.value);
+    const position = field.fieldNumber.position;
+    if (!Number.isInteger(value) || value <= 0) {
+      this._addError(
+        DiagnosticCode.INVALID_FIELD_NUMBER,
+        'Field numbers must be positive integers',
+        position,
+      );
+    } else if (value > MAX_FIELD_NUMBER) {
+      this._addError(
+        DiagnosticCode.INVALID_FIELD_NUMBER,
+        `Field numbers cannot be greater than ${MAX_FIELD_NUMBER}`,
+        position,
+      );
+    } else if (value >= FIRST_RESERVED_FIELD_NUMBER && value <= LAST_RESERVED_FIELD_NUMBER) {
+      this._addError(
+        DiagnosticCode.IMPLEMENTATION_FIELD_NUMBER,
+        `Field numbers ${FIRST_RESERVED_FIELD_NUMBER} through ${LAST_RESERVED_FIELD_NUMBER} are reserved for the protocol buffer library implementation`,
+        position,
+      );
+    }
+    return value;
+  }
+
+  private _validateLabel(field: FieldNode) {
+    const label = field.label?.value;
+    if (label === 'required' && this._isProto3()) {
+      this._addError(
+        DiagnosticCode.REQUIRED_IN_PROTO3,
+        'Required fields are not allowed in proto3',
+        field.label!.position,
+      );
+    } else if ((label === 'required' || label === 'optional') && this._ast.edition !== null) {
+      this._addError(
+        DiagnosticCode.LABEL_IN_EDITIONS,
+        `Label "${label}" is not supported in editions, use features.field_presence instead`,
+        field.label!.position,
+      );
+    }
+  }
+
+  private _validateGroup(field: FieldNode) {
+    if (!field.group) {
+      return;
+    }
+    if (this._isProto3()) {
+      this._addError(
+        DiagnosticCode.INVALID_GROUP,
+        'Groups are not supported in proto3',
+        field.position,
+      );
+    } else if (this._ast.edition !== null) {
+      this._addError(
+        DiagnosticCode.INVALID_GROUP,
+        'Groups are not supported in editions, use features.message_encoding = DELIMITED instead',
+        field.position,
+      );
+    }
+  }
+
+  /** `[default = ...]` is only allowed on singular scalar and enum fields outside proto3 */
+  private _validateDefault(field: FieldNode) {
+    const option = findOption(field.options, 'default');
+    if (option === null) {
+      return;
+    }
+    const { value } = option;
+    const type = field.fieldType.name;
+    const symbol = this._references.get(field.fieldType);
+    let message: string | null = null;
+    if (this._isProto3()) {
+      message = 'Explicit default values are not allowed in proto3';
+    } else if (field.label?.value === 'repeated') {
+      message = 'Repeated fields can not have default values';
+    } else if (field.group || symbol?.kind === SymbolKind.MESSAGE) {
+      message = 'Message fields can not have default values';
+    } else if (symbol?.kind === SymbolKind.ENUM) {
+      const valid =
+        value.type === ASTKind.IDENTIFIER &&
+        symbol.node.fields.some((item) => item.name.value === value.value);
+      if (!valid) {
+        message = `Default value must be a value of enum "${symbol.fullName}"`;
+      }
+    } else if (type === 'string' || type === 'bytes') {
+      if (value.type !== ASTKind.STRING_LITERAL) {
+        message = `Default value of a ${type} field must be a string`;
+      }
+    } else if (type === 'bool') {
+      if (value.type !== ASTKind.BOOLEAN_LITERAL) {
+        message = 'Default value of a bool field must be true or false';
+      }
+    } else if (isScalarType(type) && value.type !== ASTKind.NUMBER_LITERAL) {
+      message = `Default value of a ${type} field must be a number`;
+    } else if (Object.hasOwn(INTEGER_RANGES, type) && value.type === ASTKind.NUMBER_LITERAL) {
+      const digits = getIntegerDigits(value.value);
+      const [min, max] = INTEGER_RANGES[type];
+      if (digits === null) {
+        message = `Default value of a ${type} field must be an integer`;
+      } else if (BigInt(digits) < min || BigInt(digits) > max) {
+        message = `Default value ${value.value} is out of the range of ${type}`;
+      }
+    }
+    if (message !== null) {
+      this._addError(DiagnosticCode.INVALID_DEFAULT, message, value.position);
+    }
+  }
+
+  /** `pattern` values below `value`, `name` is the path of the rule that holds it */
+  private _validatePatternRules(name: string, value: AggregateValueNode) {
+    if (value.type === ASTKind.AGGREGATE) {
+      for (let i = 0; i < value.fields.length; i += 1) {
+        this._validatePatternRules(value.fields[i].name.value, value.fields[i].value);
+      }
+    } else if (value.type === ASTKind.LIST) {
+      for (let i = 0; i < value.values.length; i += 1) {
+        this._validatePatternRules(name, value.values[i]);
+      }
+    } else if (/(^|\.)pattern$/.test(name) && value.type === ASTKind.STRING_LITERAL) {
+      try {
+        new RegExp(value.value);
+      } catch {
+        this._addWarning(
+          DiagnosticCode.UNSUPPORTED_PATTERN,
+          `Pattern "${value.value}" is not a valid JavaScript regular expression, type guards do not check it`,
+          value.position,
+        );
+      }
+    }
+  }
+
+  /** validation rules use RE2 patterns, the type guards check them as JavaScript regular expressions */
+  private _validatePatterns(options: FieldOptionNode[]) {
+    for (let i = 0; i < options.length; i += 1) {
+      const { name, value } = options[i];
+      if (RULE_OPTIONS.some((option) => name.value.startsWith(option))) {
+        this._validatePatternRules(name.value, value);
+      }
+    }
+  }
+
+  private _validateFeatures(options: (OptionNode | FieldOptionNode)[]) {
+    for (let i = 0; i < options.length; i += 1) {
+      const { name, value } = options[i];
+      const featureName = getFeatureName(name.value);
+      if (featureName === null && name.value !== 'features') {
+        continue;
+      }
+      if (this._ast.edition === null) {
+        this._addError(
+          DiagnosticCode.INVALID_FEATURE,
+          'Features are only valid under editions',
+          name.position,
+        );
+      } else if (featureName !== null && !isValidFeatureValue(featureName, value)) {
+        this._addError(
+          DiagnosticCode.INVALID_FEATURE,
+          `Invalid value for feature "${featureName}"`,
+          value.position,
+        );
+      } else if (value.type === ASTKind.AGGREGATE) {
+        for (let j = 0; j < value.fields.length; j += 1) {
+          const field = value.fields[j];
+          if (!isValidFeatureValue(field.name.value, field.value)) {
+            this._addError(
+              DiagnosticCode.INVALID_FEATURE,
+              `Invalid value for feature "${field.name.value}"`,
+              field.value.position,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /** members of a oneof are always singular, so they take no label and can not be maps */
+  private _validateOneof(node: OneofNode) {
+    if (node.fields.length === 0) {
+      this._addError(
+        DiagnosticCode.EMPTY_ONEOF,
+        `Oneof "${node.name.value}" must contain at least one field`,
+        node.name.position,
+      );
+    }
+    for (let i = 0; i < node.fields.length; i += 1) {
+      const field = node.fields[i];
+      if (field.fieldType.name === 'map' && field.fieldType.arguments.length === 2) {
+        this._addError(
+          DiagnosticCode.INVALID_ONEOF_FIELD,
+          'Map fields are not allowed in oneofs',
+          field.fieldType.position,
+        );
+      } else if (field.label !== null) {
+        this._addError(
+          DiagnosticCode.INVALID_ONEOF_FIELD,
+          `Fields in oneofs must not have labels, remove "${field.label.value}"`,
+          field.label.position,
+        );
+      }
+    }
+  }
+
+  /**
+   * enum values are siblings of their enum as in C++, so their names must be unique among the
+   * values of every enum of the scope and the other names declared in it
+   */
+  private _validateEnumValueNames(enums: EnumNode[], siblings: string[], scope: string) {
+    const where = scope ? ` in "${scope}"` : '';
+    const declared = new Set(siblings);
+    const values = new Map<string, string>();
+    for (let i = 0; i < enums.length; i += 1) {
+      const enumName = enums[i].name.value;
+      for (let j = 0; j < enums[i].fields.length; j += 1) {
+        const { name } = enums[i].fields[j];
+        const owner = values.get(name.value);
+        if (owner !== undefined && owner !== enumName) {
+          this._addError(
+            DiagnosticCode.DUPLICATE_ENUM_VALUE_NAME,
+            `"${name.value}" is already defined${where} by enum "${owner}", enum values are siblings of their enum and must be unique in its scope`,
+            name.position,
+          );
+        } else if (owner !== undefined || declared.has(name.value)) {
+          this._addError(
+            DiagnosticCode.DUPLICATE_ENUM_VALUE_NAME,
+            `"${name.value}" is already defined${where}`,
+            name.position,
+          );
+        } else {
+          values.set(name.value, enumName);
+        }
+      }
+    }
+  }
+
+  private _validateService(node: ServiceNode) {
+    const names = new Set<string>();
+    for (let i = 0; i < node.methods.length; i += 1) {
+      const method = node.methods[i];
+      if (names.has(method.name.value)) {
+        this._addError(
+          DiagnosticCode.DUPLICATE_METHOD_NAME,
+          `Method "${method.name.value}" is already defined in service "${node.name.value}"`,
+          method.name.position,
+        );
+      }
+      names.add(method.name.value);
+      const types = [method.inputType, method.outputType];
+      for (let j = 0; j < types.length; j += 1) {
+        const symbol = this._references.get(types[j]);
+        if (symbol !== undefined && symbol.kind !== SymbolKind.MESSAGE) {
+          this._addError(
+            DiagnosticCode.INVALID_METHOD_TYPE,
+            `"${symbol.fullName}" is not a message type`,
+            types[j].position,
+          );
+        }
+      }
+    }
+  }
+
+  private _validateMessage(node: MessageNode, parentScope: string, parentFeatures: Features) {
+    const fullName = parentScope ? `${parentScope}.${node.name.value}` : node.name.value;
+    const features = resolveFeatures(parentFeatures, node.options);
+    this._validateTypeName(node, fullName);
+    this._validateFeatures(node.options);
+
+    const reservedRanges = this._getReservedRanges(node.reserved, MAX_FIELD_NUMBER);
+    const reservedNames = this._getReservedNames(node.reserved);
+    this._validateReservedNames(node.reserved);
+    const extensionRanges = this._getExtensionRanges(node.extensions);
+    const fields = [...node.fields, ...node.oneofs.flatMap((oneof) => oneof.fields)];
+    const numbers = new Map<number, FieldNode>();
+    const names = new Map<string, FieldNode>();
+    for (let i = 0; i < fields.length; i += 1) {
+      const field = fields[i];
+      const name = field.name.value;
+      const value = this._validateFieldNumber(field);
+      this._validateLabel(field);
+      this._validateGroup(field);
+      this._validateDefault(field);
+      this._validateFeatures(field.options);
+      this._validatePatterns(field.options);
+
+      const sameNumber = numbers.get(value);
+      if (sameNumber !== undefined) {
+        this._addError(
+          DiagnosticCode.DUPLICATE_FIELD_NUMBER,
+          `Field number ${value} has already been used in "${fullName}" by field "${sameNumber.name.value}"`,
+          field.fieldNumber.position,
+        );
+      } else if (Number.isInteger(value)) {
+        numbers.set(value, field);
+      }
+      if (names.has(name)) {
+        this._addError(
+          DiagnosticCode.DUPLICATE_FIELD_NAME,
+          `Field "${name}" is already defined in "${fullName}"`,
+          field.name.position,
+        );
+      } else {
+        names.set(name, field);
+      }
+
+      if (inRanges(value, reservedRanges)) {
+        this._addError(
+          DiagnosticCode.RESERVED_NUMBER,
+          `Field "${name}" uses reserved number ${value}`,
+          field.fieldNumber.position,
+        );
+      }
+      if (reservedNames.has(name)) {
+        this._addError(
+          DiagnosticCode.RESERVED_NAME,
+          `Field name "${name}" is reserved`,
+          field.name.position,
+        );
+      }
+      if (inRanges(value, extensionRanges)) {
+        this._addError(
+          DiagnosticCode.FIELD_IN_EXTENSION_RANGE,
+          `Extension range includes field "${name}" (${value})`,
+          field.fieldNumber.position,
+        );
+      }
+    }
+
+    for (let i = 0; i < node.oneofs.length; i += 1) {
+      this._validateOneof(node.oneofs[i]);
+    }
+    for (let i = 0; i < node.enums.length; i += 1) {
+      this._validateEnum(node.enums[i], fullName, features);
+    }
+    this._validateEnumValueNames(
+      node.enums,
+      [...node.messages, ...node.enums, ...node.oneofs, ...fields].map((item) => item.name.value),
+      fullName,
+    );
+    for (let i = 0; i < node.extends.length; i += 1) {
+      this._validateExtend(node.extends[i]);
+    }
+    for (let i = 0; i < node.messages.length; i += 1) {
+      this._validateMessage(node.messages[i], fullName, features);
+    }
+  }
+
+  private _validateEnum(node: EnumNode, parentScope: string, parentFeatures: Features) {
+    const fullName = parentScope ? `${parentScope}.${node.name.value}` : node.name.value;
+    const features = resolveFeatures(parentFeatures, node.options);
+    this._validateTypeName(node, fullName);
+    this._validateFeatures(node.options);
+
+    if (node.fields.length === 0) {
+      this._addError(
+        DiagnosticCode.EMPTY_ENUM,
+        `Enum "${node.name.value}" must contain at least one value`,
+        node.name.position,
+      );
+      return;
+    }
+    if (features.enumType === 'OPEN' && parseIntegerLiteral(node.fields[0].value.value) !== 0) {
+      this._addError(
+        DiagnosticCode.FIRST_ENUM_VALUE_NOT_ZERO,
+        'The first enum value must be zero for open enums',
+        node.fields[0].value.position,
+      );
+    }
+
+    const allowAlias = getOptionValue(node.options, 'allow_alias') === true;
+    const reservedRanges = this._getReservedRanges(node.reserved, MAX_ENUM_VALUE);
+    const reservedNames = this._getReservedNames(node.reserved);
+    this._validateReservedNames(node.reserved);
+    const values = new Map<number, string>();
+    for (let i = 0; i < node.fields.length; i += 1) {
+      const field = node.fields[i];
+      const name = field.name.value;
+      const value = parseIntegerLiteral(field.value.value);
+      this._validateFeatures(field.options);
+      if (!Number.isInteger(value) || value < -MAX_ENUM_VALUE - 1 || value > MAX_ENUM_VALUE) {
+        this._addError(
+          DiagnosticCode.INVALID_ENUM_VALUE,
+          `Enum value "${name}" must be a 32-bit integer`,
+          field.value.position,
+        );
+        continue;
+      }
+      const sameValue = values.get(value);
+      if (sameValue !== undefined && !allowAlias) {
+        this._addError(
+          DiagnosticCode.DUPLICATE_ENUM_VALUE,
+          `"${name}" uses the same enum value as "${sameValue}", set "option allow_alias = true;" to allow this`,
+          field.value.position,
+        );
+      } else if (sameValue === undefined) {
+        values.set(value, name);
+      }
+      if (inRanges(value, reservedRanges)) {
+        this._addError(
+          DiagnosticCode.RESERVED_NUMBER,
+          `Enum value "${name}" uses reserved number ${value}`,
+          field.value.position,
+        );
+      }
+      if (reservedNames.has(name)) {
+        this._addError(
+          DiagnosticCode.RESERVED_NAME,
+          `Enum value "${name}" is reserved`,
+          field.name.position,
+        );
+      }
+    }
+  }
+
+  /** extension fields must use numbers declared by the extended message */
+  private _validateExtend(node: ExtendNode) {
+    const symbol = this._references.get(node.name);
+    for (let i = 0; i < node.fields.length; i += 1) {
+      const field = node.fields[i];
+      const value = this._validateFieldNumber(field);
+      this._validateLabel(field);
+      this._validateGroup(field);
+      this._validateDefault(field);
+      this._validateFeatures(field.options);
+      this._validatePatterns(field.options);
+      if (symbol === undefined) {
+        continue;
+      }
+      if (symbol.kind !== SymbolKind.MESSAGE) {
+        this._addError(
+          DiagnosticCode.EXTENDEE_NOT_MESSAGE,
+          `"${symbol.fullName}" is not a message type`,
+          node.name.position,
+        );
+        return;
+      }
+      if (!inRanges(value, this._getExtensionRanges(symbol.node.extensions))) {
+        this._addError(
+          DiagnosticCode.UNDECLARED_EXTENSION_NUMBER,
+          `"${symbol.fullName}" does not declare ${value} as an extension number`,
+          field.fieldNumber.position,
+        );
+      }
+    }
+  }
+
+  validate(): ValidatorOutput {
+    if (this._ast.syntax === null && this._ast.edition === null) {
+      this._addWarning(
+        DiagnosticCode.MISSING_SYNTAX,
+        'No syntax specified, defaulting to proto2. Add \'syntax = "proto3";\' or \'syntax = "proto2";\'',
+        { ...this._ast.position, end: this._ast.position.start },
+      );
+    }
+    const edition = this._ast.edition?.edition;
+    if (edition && !isSupportedEdition(edition.value)) {
+      this._addError(
+        DiagnosticCode.UNSUPPORTED_EDITION,
+        `Edition "${edition.value}" is not supported`,
+        edition.position,
+      );
+    }
+    this._validateFeatures(this._ast.options);
+    const features = resolveFeatures(getDefaultFeatures(this._ast), this._ast.options);
+    const scope = this._ast.package?.name.value ?? '';
+    for (let i = 0; i < this._ast.enums.length; i += 1) {
+      this._validateEnum(this._ast.enums[i], scope, features);
+    }
+    this._validateEnumValueNames(
+      this._ast.enums,
+      [...this._ast.messages, ...this._ast.enums, ...this._ast.services].map(
+        (item) => item.name.value,
+      ),
+      scope,
+    );
+    for (let i = 0; i < this._ast.messages.length; i += 1) {
+      this._validateMessage(this._ast.messages[i], scope, features);
+    }
+    for (let i = 0; i < this._ast.extends.length; i += 1) {
+      this._validateExtend(this._ast.extends[i]);
+    }
+    for (let i = 0; i < this._ast.services.length; i += 1) {
+      this._validateService(this._ast.services[i]);
+    }
+
+    return { errors: this._errors };
+  }
+}
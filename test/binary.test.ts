@@ -0,0 +1,155 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import type { GenerateOptions } from '@/compiler/Generate';
+import { BINARY_CASES } from './fixtures/binary/cases';
+import { getTypeErrors, importGenerated } from './helper';
+
+interface MessageCodec {
+  encode(message: unknown): Uint8Array;
+  decode(bytes: Uint8Array): Record<string, unknown>;
+  toJSON(message: unknown): unknown;
+  fromJSON(json: unknown): Record<string, unknown>;
+}
+
+const FIXTURES = path.join(__dirname, 'fixtures/binary');
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+}
+
+/** generated modules keyed by the proto file */
+const modules = new Map<string, Record<string, MessageCodec>>();
+
+/** `decode.proto` generated with each oneof style */
+const decodeModules = new Map<GenerateOptions['oneofStyle'], Record<string, MessageCodec>>();
+
+beforeAll(async () => {
+  const files = new Set([...BINARY_CASES.map((item) => item.file), 'names.proto']);
+  for (const file of files) {
+    const source = fs.readFileSync(path.join(FIXTURES, file), 'utf8');
+    const options = { binary: true, json: true, guards: true, factories: true };
+    modules.set(file, await importGenerated(source, { ...options, long: 'bigint' }));
+  }
+  const source = fs.readFileSync(path.join(FIXTURES, 'decode.proto'), 'utf8');
+  for (const oneofStyle of ['optional', 'union', 'kind'] as const) {
+    decodeModules.set(oneofStyle, await importGenerated(source, { binary: true, oneofStyle }));
+  }
+});
+
+describe('golden binary encoding', () => {
+  it.each(BINARY_CASES)('encodes $message as protoc', ({ file, message, value, hex }) => {
+    const codec = modules.get(file)![message];
+    expect(toHex(codec.encode(value))).toBe(hex);
+  });
+
+  it.each(BINARY_CASES)('decodes $message as protoc', ({ file, message, value, hex }) => {
+    const codec = modules.get(file)![message];
+    expect(codec.decode(fromHex(hex))).toEqual(value);
+  });
+
+  it('keeps unknown fields and writes them back', () => {
+    const codec = modules.get('scalars.proto')!.Sub;
+    // field 3 as a varint and field 4 as a fixed32, unknown to `Sub`
+    const hex = '0801' + '1803' + '2504030201';
+    const message = codec.decode(fromHex(hex));
+    expect(message).toEqual({ id: 1, name: '', $unknown: fromHex('18032504030201') });
+    expect(toHex(codec.encode(message))).toBe(hex);
+  });
+});
+
+describe('declarations named after helpers and globals', () => {
+  it('round trips messages named after the helpers', () => {
+    const { BinaryWriter, Object } = modules.get('names.proto')!;
+    const message = { counts: new Map([['a', 1]]), writer: { a: 150 } };
+    expect(toHex(BinaryWriter.encode({ a: 150 }))).toBe('089601');
+    expect(Object.decode(Object.encode(message))).toEqual(message);
+  });
+
+  it('uses the globals hidden by messages', () => {
+    const names = modules.get('names.proto')!;
+    const functions = names as unknown as Record<string, (value: unknown) => unknown>;
+    const message = { objects: new Map([[1, { counts: new Map([['b', 2]]) }]]) };
+    expect(names.Map.fromJSON({ objects: { 1: { counts: { b: 2 } } } })).toEqual(
+      functions.createMap(message),
+    );
+    expect(functions.isUint8Array({ data: new Uint8Array([1]) })).toBe(true);
+    expect(names.Number.toJSON({ value: 7 })).toEqual({ value: 7 });
+  });
+});
+
+describe('decoding as protoc', () => {
+  const empty = { levels: [], named: new Map() };
+
+  it('merges messages and groups read more than once', () => {
+    const { Node } = decodeModules.get('optional')!;
+    const first = Node.encode({ ...empty, child: { ...empty, id: 1 }, item: { name: 'a' } });
+    const second = Node.encode({ ...empty, child: { ...empty, level: 1 }, item: { size: 2 } });
+    expect(Node.decode(fromHex(toHex(first) + toHex(second)))).toEqual({
+      ...empty,
+      child: { ...empty, id: 1, level: 1 },
+      item: { name: 'a', size: 2 },
+    });
+  });
+
+  it.each([
+    ['optional', { text: 'x' }, { nested: { ...empty, id: 1, level: 1 } }],
+    [
+      'union',
+      { choice: { $case: 'text', text: 'x' } },
+      { choice: { $case: 'nested', nested: { ...empty, id: 1, level: 1 } } },
+    ],
+    [
+      'kind',
+      { choice: { oneofKind: 'text', text: 'x' } },
+      {
+        choice: {
+          oneofKind: 'nested',
+          nested: { ...empty, choice: { oneofKind: undefined }, id: 1, level: 1 },
+        },
+      },
+    ],
+  ] as const)('keeps the last member of a oneof in the %s style', (style, text, nested) => {
+    const { Node } = decodeModules.get(style)!;
+    // `number: 1` then `text: "x"`, and `nested { id: 1 }` then `nested { level: HIGH }`
+    expect(Node.decode(fromHex('3001' + '3a0178'))).toEqual({ ...empty, ...text });
+    expect(Node.decode(fromHex('3001' + '42020801' + '42024801'))).toEqual({
+      ...empty,
+      ...nested,
+    });
+  });
+
+  it('keeps unknown values of closed enums as unknown fields', () => {
+    const { Node } = decodeModules.get('optional')!;
+    // `level: 3`, `level: HIGH`, `levels: 2`, `levels: HIGH` and `named { key: "x" value: 3 }`
+    const unknown = '4803' + '5002' + '5a050a01781003';
+    const message = Node.decode(fromHex('4803' + '4801' + '5002' + '5001' + '5a050a01781003'));
+    expect(message).toEqual({
+      level: 1,
+      levels: [1],
+      named: new Map(),
+      $unknown: fromHex(unknown),
+    });
+    expect(toHex(Node.encode(message))).toBe('4801' + '5001' + unknown);
+  });
+});
+
+describe('oneof styles', () => {
+  it('compiles the kind style without strictNullChecks', () => {
+    const source = fs.readFileSync(path.join(FIXTURES, 'decode.proto'), 'utf8');
+    const { code } = compile(source, {
+      oneofStyle: 'kind',
+      binary: true,
+      json: true,
+      guards: true,
+      factories: true,
+    });
+    expect(getTypeErrors(code, { strict: false })).toEqual([]);
+    expect(getTypeErrors(code, { strict: true })).toEqual([]);
+  }, 30000);
+});
@@ -0,0 +1,128 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCliOptions, UsageError } from '@/cli/config';
+import { expandInput, getGlobBase, globToRegExp } from '@/cli/glob';
+import { main } from '@/cli/main';
+
+describe('globs', () => {
+  it.each([
+    ['*.proto', 'a.proto', true],
+    ['*.proto', 'dir/a.proto', false],
+    ['**/*.proto', 'a.proto', true],
+    ['**/*.proto', 'a/b/c.proto', true],
+    ['a/**', 'a/b/c.proto', true],
+    ['a?.proto', 'ab.proto', true],
+    ['a?.proto', 'a/.proto', false],
+    ['[ab].proto', 'b.proto', true],
+    ['[!ab].proto', 'b.proto', false],
+    ['{foo,bar}.proto', 'bar.proto', true],
+    ['{foo,bar}.proto', 'baz.proto', false],
+    ['a.proto', 'a_proto', false],
+  ])('%s matches %s: %s', (pattern, file, expected) => {
+    expect(globToRegExp(pattern).test(file)).toBe(expected);
+  });
+
+  it.each([
+    ['protos/**/*.proto', 'protos'],
+    ['protos/api/*.proto', 'protos/api'],
+    ['*.proto', '.'],
+    ['protos\\*.proto', 'protos'],
+    ['a/{b,c}/d.proto', 'a'],
+  ])('searches %s below %s', (pattern, base) => {
+    expect(getGlobBase(pattern)).toBe(base);
+  });
+});
+
+describe('command line', () => {
+  let cwd: string;
+  let errors: string[];
+
+  function writeFile(file: string, content: string) {
+    fs.mkdirSync(path.dirname(path.join(cwd, file)), { recursive: true });
+    fs.writeFileSync(path.join(cwd, file), content);
+  }
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2ts-cli-'));
+    errors = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation((message: string) => {
+      errors.push(message);
+    });
+    writeFile('protos/a.proto', 'syntax = "proto3";\nmessage A {}\n');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('prefers flags over the config file', async () => {
+    writeFile(
+      'config/proto2ts.config.json',
+      JSON.stringify({
+        inputs: ['a.proto'],
+        includePaths: ['.'],
+        out: 'gen',
+        options: { guards: true },
+      }),
+    );
+    const fromConfig = await getCliOptions(['-c', 'config/proto2ts.config.json'], cwd);
+    expect(fromConfig).toMatchObject({
+      // paths of the config file are relative to its directory
+      inputs: [path.join(cwd, 'config/a.proto')],
+      includePaths: [path.join(cwd, 'config')],
+      out: path.join(cwd, 'config/gen'),
+      options: { guards: true },
+    });
+    const fromFlags = await getCliOptions(
+      ['-c', 'config/proto2ts.config.json', '-I', 'protos', '-o', 'out', 'protos/a.proto'],
+      cwd,
+    );
+    expect(fromFlags).toMatchObject({
+      inputs: [path.join(cwd, 'protos/a.proto')],
+      includePaths: [path.join(cwd, 'protos')],
+      out: path.join(cwd, 'out'),
+      options: { guards: true },
+    });
+  });
+
+  it('finds the config file in the working directory', async () => {
+    writeFile('proto2ts.config.json', JSON.stringify({ inputs: ['protos'], out: 'gen' }));
+    expect(await getCliOptions([], cwd)).toMatchObject({
+      inputs: [path.join(cwd, 'protos')],
+      out: path.join(cwd, 'gen'),
+    });
+  });
+
+  it('reports a missing input file as a usage error', async () => {
+    expect(() => expandInput('missing.proto', cwd)).toThrow(UsageError);
+    expect(expandInput('protos/*.txt', cwd)).toEqual([]);
+    expect(await main(['-I', 'protos', '-o', 'gen', 'missing.proto'], cwd)).toBe(2);
+    expect(errors).toEqual(['No such file or directory: missing.proto']);
+  });
+
+  it('exits with 1 in check mode until the outputs are written', async () => {
+    const args = ['-I', 'protos', '-o', 'gen', 'protos'];
+    expect(await main([...args, '--check'], cwd)).toBe(1);
+    expect(errors).toEqual([`${path.join('gen', 'a.ts')}: output is stale`]);
+    expect(fs.existsSync(path.join(cwd, 'gen'))).toBe(false);
+    expect(await main(args, cwd)).toBe(0);
+    expect(await main([...args, '--check'], cwd)).toBe(0);
+    writeFile('protos/a.proto', 'syntax = "proto3";\nmessage A { int32 id = 1; }\n');
+    expect(await main([...args, '--check'], cwd)).toBe(1);
+  });
+
+  it('reports diagnostics as file:line:column', async () => {
+    writeFile(
+      'protos/b.proto',
+      'syntax = "proto3";\nmessage B {\n  int32 a = 1;\n  int32 b = 1;\n}\n',
+    );
+    expect(await main(['-I', 'protos', '-o', 'gen', 'protos/b.proto'], cwd)).toBe(1);
+    expect(errors).toEqual([
+      `${path.join('protos', 'b.proto')}:4:13: error V1003: Field number 1 has already been used in "B" by field "a"`,
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { compile, parseProto } from '@/compiler/compile';
+
+function getFields(source: string) {
+  const { ast, errors } = parseProto(`syntax = "proto3";\nmessage M {\n${source}\n}`);
+  expect(errors).toEqual([]);
+  return ast!.messages[0].fields;
+}
+
+describe('comments', () => {
+  // the example of SourceCodeInfo.Location in descriptor.proto
+  it('attaches comments like protoc', () => {
+    const [foo, bar, baz, qux, corge, grault] = getFields(`
+  optional int32 foo = 1;  // Comment attached to foo.
+  // Comment attached to bar.
+  optional int32 bar = 2;
+
+  optional string baz = 3;
+  // Comment attached to baz.
+  // Another line attached to baz.
+
+  // Comment attached to moo.
+  //
+  // Another line attached to moo.
+  optional double moo = 4;
+
+  // Detached comment for corge. This is not leading or trailing comments
+  // to moo or corge because there are blank lines separating it from
+  // both.
+
+  // Detached comment for corge paragraph 2.
+
+  optional string corge = 5;
+  /* Block comment attached
+   * to corge.  Leading asterisks
+   * will be removed. */
+  /* Block comment attached to
+   * grault. */
+  optional int32 grault = 6;
+
+  // ignored detached comments.`);
+    expect(foo.comments).toEqual({
+      leading: '',
+      trailing: ' Comment attached to foo.',
+      detached: [],
+    });
+    expect(bar.comments.leading).toBe(' Comment attached to bar.');
+    expect(baz.comments.trailing).toBe(' Comment attached to baz.\n Another line attached to baz.');
+    expect(qux.comments.leading).toBe(
+      ' Comment attached to moo.\n\n Another line attached to moo.',
+    );
+    expect(corge.comments.detached).toEqual([
+      ' Detached comment for corge. This is not leading or trailing comments\n' +
+        ' to moo or corge because there are blank lines separating it from\n both.',
+      ' Detached comment for corge paragraph 2.',
+    ]);
+    expect(corge.comments.leading).toBe('');
+    expect(corge.comments.trailing).toBe(
+      ' Block comment attached\nto corge.  Leading asterisks\nwill be removed. ',
+    );
+    expect(grault.comments.leading).toBe(' Block comment attached to\ngrault. ');
+    expect(grault.comments.trailing).toBe('');
+  });
+
+  it('attaches a comment before the end of a block to the previous field', () => {
+    const [a] = getFields('  int32 a = 1;\n  // after a');
+    expect(a.comments.trailing).toBe(' after a');
+  });
+
+  it('keeps a comment without a blank line before the next field as its leading comment', () => {
+    const [a, b] = getFields('  int32 a = 1;\n  // about b\n  int32 b = 2;');
+    expect(a.comments.trailing).toBe('');
+    expect(b.comments.leading).toBe(' about b');
+  });
+
+  it('drops a block comment followed by a field on the same line', () => {
+    const [a, b] = getFields('  int32 a = 1; /* lost */ int32 b = 2;');
+    expect(a.comments.trailing).toBe('');
+    expect(b.comments.leading).toBe('');
+  });
+});
+
+describe('TSDoc of oneof members', () => {
+  const SOURCE = `syntax = "proto3";
+message M {
+  oneof choice {
+    // a number
+    int32 number = 1;
+    string text = 2 [deprecated = true];
+    bool flag = 3;
+  }
+}`;
+
+  it('documents the members of optional oneofs', () => {
+    const { code } = compile(SOURCE, {});
+    expect(code).toContain(`  /** a number */
+  number?: number;
+  /** @deprecated */
+  text?: string;
+  flag?: boolean;`);
+  });
+
+  it.each([
+    ['union', '$case'],
+    ['kind', 'oneofKind'],
+  ] as const)('documents the member properties of %s oneofs', (oneofStyle, discriminator) => {
+    const { code } = compile(SOURCE, { oneofStyle });
+    expect(code).toContain(`    | {
+      ${discriminator}: 'number';
+      /** a number */
+      number: number;
+    }
+    | {
+      ${discriminator}: 'text';
+      /** @deprecated */
+      text: string;
+    }
+    | { ${discriminator}: 'flag'; flag: boolean }`);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { compileProject } from '@/compiler/compileProject';
+import { DiagnosticCode } from '@/diagnostic/define';
+
+describe('diagnostics', () => {
+  it('reports warnings separately and still generates code', () => {
+    const { code, errors, warnings } = compile('message M { string a = 1; }');
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([
+      {
+        code: DiagnosticCode.MISSING_SYNTAX,
+        severity: 'warning',
+        message: `No syntax specified, defaulting to proto2. Add 'syntax = "proto3";' or 'syntax = "proto2";'`,
+        position: { line: 1, column: 1, start: 0, end: 0 },
+      },
+    ]);
+    expect(code).toContain('export interface M {');
+  });
+
+  it('reports types of imported files as info', () => {
+    const { code, warnings } = compile(
+      'syntax = "proto3";\nimport "x.proto";\nmessage M { x.X a = 1; }',
+    );
+    expect(warnings).toMatchObject([
+      {
+        code: DiagnosticCode.UNRESOLVED_TYPE,
+        severity: 'info',
+        message: '"x.X" is not defined in this file and is emitted as written',
+      },
+    ]);
+    expect(code).toContain('  a?: x.X;');
+  });
+
+  it('gives parser errors the expected tokens', () => {
+    const { code, errors } = compile('syntax = "proto3";\nmessage M { string a = 1 }');
+    expect(code).toBe('');
+    expect(errors).toEqual([
+      {
+        code: DiagnosticCode.UNEXPECTED_TOKEN,
+        severity: 'error',
+        message: 'Expect ";" after field value',
+        position: { line: 2, column: 26, start: 44, end: 45 },
+        expected: ['";"'],
+      },
+    ]);
+  });
+
+  it('generates code despite semantic errors with emitOnError', () => {
+    const source = 'syntax = "proto3";\nmessage M { Missing a = 1; }';
+    expect(compile(source).code).toBe('');
+    const { code, errors } = compile(source, { emitOnError: true });
+    expect(errors).toMatchObject([{ code: DiagnosticCode.UNDEFINED_TYPE, severity: 'error' }]);
+    expect(code).toContain('  a?: Missing;');
+  });
+
+  it('never generates code for syntax errors', () => {
+    const { code } = compile('syntax = "proto3";\nmessage M { string a = 1 }', {
+      emitOnError: true,
+    });
+    expect(code).toBe('');
+  });
+
+  it('reports the file of project warnings', () => {
+    const { files, warnings } = compileProject(['a.proto'], {
+      files: { 'a.proto': 'message A {}' },
+    });
+    expect(files).toHaveLength(1);
+    expect(warnings).toMatchObject([{ code: DiagnosticCode.MISSING_SYNTAX, file: 'a.proto' }]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { compileProject } from '@/compiler/compileProject';
+import { DiagnosticCode } from '@/diagnostic/define';
+import { getTypeErrors } from './helper';
+
+const SOURCE = `syntax = "proto2";
+package p;
+message Foo { extensions 100 to 199; }
+message Bar {
+  extend Foo { optional Bar bar = 101; }
+}
+extend Foo {
+  optional string name = 100;
+  repeated int32 ids = 102;
+}`;
+
+describe('extensions', () => {
+  it('generates a descriptor per extension field', () => {
+    const { code } = compile(SOURCE);
+    expect(code).toContain(`export const name = {
+  extendee: 'p.Foo',
+  fieldNumber: 100,
+  type: 'string',
+} as const;`);
+    expect(code).toContain(`  export const bar = {
+    extendee: 'p.Foo',
+    fieldNumber: 101,
+    type: 'p.Bar',
+  } as const;`);
+    expect(code).not.toMatch(/export interface Foo \{\n\s+name/);
+  });
+
+  it('merges the fields into the extended interface', () => {
+    const { code } = compile(SOURCE, { augmentExtensions: true });
+    expect(code).toContain(`export interface Foo {
+  bar?: Bar;
+  name?: string;
+  ids?: number[];
+}`);
+    const usage = "const foo: Foo = { name: 'a', ids: [1], bar: {} };";
+    expect(getTypeErrors(`${code}\n${usage}\n`, { strict: true })).toEqual([]);
+  }, 30000);
+
+  it('augments the messages of other files', () => {
+    const { files, errors } = compileProject(
+      ['opts.proto'],
+      {
+        files: {
+          'opts.proto': `syntax = "proto3";
+package my;
+import "google/protobuf/descriptor.proto";
+extend google.protobuf.FieldOptions { string label = 50000; }
+`,
+        },
+      },
+      { augmentExtensions: true },
+    );
+    expect(errors).toEqual([]);
+    expect(files[0].code).toContain(`declare module './google/protobuf/descriptor' {
+  export interface FieldOptions {
+    label?: string;
+  }
+}`);
+  });
+
+  it('checks the numbers against the extension ranges', () => {
+    const { errors } = compile(`${SOURCE}\nextend Foo { optional int32 bad = 5; }`);
+    expect(errors).toMatchObject([
+      {
+        code: DiagnosticCode.UNDECLARED_EXTENSION_NUMBER,
+        message: '"p.Foo" does not declare 5 as an extension number',
+        position: { line: 11, column: 35 },
+      },
+    ]);
+  });
+
+  it('rejects extendees that are not messages', () => {
+    const { errors } = compile(
+      'syntax = "proto2";\nenum E { A = 0; }\nextend E { optional int32 x = 1; }',
+    );
+    expect(errors).toMatchObject([
+      {
+        code: DiagnosticCode.EXTENDEE_NOT_MESSAGE,
+        message: '"E" is not a message type',
+        position: { line: 3, column: 8 },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { importGenerated } from './helper';
+
+type Factory = () => Record<string, unknown>;
+
+const SOURCE = `syntax = "proto2";
+message Defaults {
+  optional int32 octal = 1 [default = 017];
+  optional int32 negative = 2 [default = -0x10];
+  optional uint32 hex = 3 [default = 0xFF];
+  optional double real = 4 [default = 010];
+  optional float fraction = 5 [default = 1.5];
+  optional uint64 big = 6 [default = 0xFFFFFFFFFFFFFFFF];
+  optional int64 small = 7 [default = -01];
+  optional string text = 8 [default = "\\303\\251"];
+  optional bytes data = 9 [default = "\\303\\251\\377\\x00\\u00e9"];
+  optional bytes empty = 10 [default = ""];
+}`;
+
+describe('declared defaults of factories', () => {
+  it('writes integer literals as decimal numbers', () => {
+    const { code } = compile(SOURCE, { factories: true });
+    expect(code).toContain('octal: 15,');
+    expect(code).not.toMatch(/: 0\d/);
+  });
+
+  it('creates the declared defaults', async () => {
+    const { createDefaults } = await importGenerated<{ createDefaults: Factory }>(SOURCE, {
+      factories: true,
+      long: 'bigint',
+    });
+    expect(createDefaults()).toEqual({
+      octal: 15,
+      negative: -16,
+      hex: 255,
+      real: 8,
+      fraction: 1.5,
+      big: 18446744073709551615n,
+      small: -1n,
+      text: 'é',
+      data: new Uint8Array([0xc3, 0xa9, 0xff, 0x00, 0xc3, 0xa9]),
+      empty: new Uint8Array([]),
+    });
+  });
+});
+
+const MESSAGE_SOURCE = `syntax = "proto3";
+enum Role {
+  ROLE_UNSPECIFIED = 0;
+  ROLE_ADMIN = 1;
+}
+message Address {
+  string city = 1;
+  string street = 2;
+}
+message User {
+  int32 id = 1;
+  string name = 2;
+  bool active = 3;
+  bytes avatar = 4;
+  Role role = 5;
+  repeated string tags = 6;
+  map<string, Address> homes = 7;
+  Address address = 8;
+  optional int32 age = 9;
+  oneof contact {
+    string email = 10;
+    Address office = 11;
+  }
+  User parent = 12;
+}`;
+
+describe('factories', () => {
+  let createUser: (partial?: Record<string, unknown>) => Record<string, unknown>;
+
+  beforeAll(async () => {
+    ({ createUser } = await importGenerated<{ createUser: typeof createUser }>(MESSAGE_SOURCE, {
+      factories: true,
+    }));
+  });
+
+  it('fills in zero values', () => {
+    expect(createUser()).toEqual({
+      id: 0,
+      name: '',
+      active: false,
+      avatar: new Uint8Array(),
+      role: 0,
+      tags: [],
+      homes: new Map(),
+    });
+  });
+
+  it('uses the first value of a proto2 enum', async () => {
+    const { createLevels } = await importGenerated<{ createLevels: Factory }>(
+      `syntax = "proto2";
+      enum Level {
+        HIGH = 2;
+        LOW = 1;
+      }
+      message Levels {
+        required Level level = 1;
+        optional Level other = 2;
+      }`,
+      { factories: true },
+    );
+    expect(createLevels()).toEqual({ level: 2 });
+  });
+
+  it('leaves fields with presence and oneofs unset', () => {
+    const user = createUser();
+    expect(user).not.toHaveProperty('address');
+    expect(user).not.toHaveProperty('age');
+    expect(user).not.toHaveProperty('email');
+    expect(user).not.toHaveProperty('office');
+  });
+
+  it('completes nested messages with their own factory', () => {
+    const user = createUser({
+      address: { city: 'London' },
+      office: { street: 'Main' },
+      parent: { name: 'Ada', address: {} },
+      homes: new Map([['a', { city: 'Paris' }]]),
+    });
+    expect(user.address).toEqual({ city: 'London', street: '' });
+    expect(user.office).toEqual({ city: '', street: 'Main' });
+    expect(user.parent).toMatchObject({ id: 0, name: 'Ada', address: { city: '', street: '' } });
+    expect(user.homes).toEqual(new Map([['a', { city: 'Paris', street: '' }]]));
+  });
+
+  it('copies lists and maps', () => {
+    const tags = ['a'];
+    const homes = new Map();
+    const user = createUser({ tags, homes });
+    expect(user.tags).toEqual(tags);
+    expect(user.tags).not.toBe(tags);
+    expect(user.homes).not.toBe(homes);
+  });
+
+  it.each([
+    ['union', { $case: 'office', office: { city: '', street: 'Main' } }],
+    ['kind', { oneofKind: 'office', office: { city: '', street: 'Main' } }],
+  ] as const)('completes the member of %s oneofs', async (oneofStyle, contact) => {
+    const { createUser: create } = await importGenerated<{ createUser: typeof createUser }>(
+      MESSAGE_SOURCE,
+      { factories: true, oneofStyle },
+    );
+    const discriminator = oneofStyle === 'union' ? '$case' : 'oneofKind';
+    expect(create().contact).toEqual(oneofStyle === 'kind' ? { oneofKind: undefined } : undefined);
+    expect(
+      create({ contact: { [discriminator]: 'office', office: { street: 'Main' } } }).contact,
+    ).toEqual(contact);
+  });
+});
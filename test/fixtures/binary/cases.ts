@@ -0,0 +1,93 @@
+/**
+ * messages of the golden protos with their encoding, the hex is written by protoc from the text
+ * format, e.g. `protoc --encode=golden.Sub scalars.proto <<< 'id: 150' | xxd -p`
+ */
+export interface BinaryCase {
+  file: string;
+  message: string;
+  /** input of protoc in the text format */
+  text: string;
+  value: Record<string, unknown>;
+  hex: string;
+}
+
+const sub = { id: 0, name: '' };
+
+export const BINARY_CASES: BinaryCase[] = [
+  {
+    file: 'scalars.proto',
+    message: 'Scalars',
+    text:
+      'int32: -1 int64: -9007199254740993 uint32: 4294967295 uint64: 18446744073709551615 ' +
+      'sint32: -2147483648 sint64: -5 fixed32: 305419896 fixed64: 1311768467463790320 ' +
+      'sfixed32: -2 sfixed64: -3 float: 1.5 double: -0.125 bool: true string: "h\\303\\251llo" ' +
+      'bytes: "\\000\\377\\200" color: BLUE sub { id: 150 name: "s" }',
+    value: {
+      int32: -1,
+      int64: -9007199254740993n,
+      uint32: 4294967295,
+      uint64: 18446744073709551615n,
+      sint32: -2147483648,
+      sint64: -5n,
+      fixed32: 305419896,
+      fixed64: 1311768467463790320n,
+      sfixed32: -2,
+      sfixed64: -3n,
+      float: 1.5,
+      double: -0.125,
+      bool: true,
+      string: 'héllo',
+      bytes: new Uint8Array([0x00, 0xff, 0x80]),
+      color: 2,
+      sub: { id: 150, name: 's' },
+    },
+    hex:
+      '08ffffffffffffffffff0110ffffffffffffffefff0118ffffffff0f20ffffffffffffffffff0128ffffffff' +
+      '0f30093d7856341241f0debc9a785634124dfeffffff51fdffffffffffffff5d0000c03f61000000000000c0' +
+      'bf6801720668c3a96c6c6f7a0300ff808001028a0106089601120173',
+  },
+  {
+    file: 'scalars.proto',
+    message: 'Repeated',
+    text:
+      'packed: [1, 150, -1] zigzag: [0, -1, 1, -64] colors: [RED, BLUE, 7] unpacked: [3, 270] ' +
+      'strings: ["a", ""] subs { id: 1 } subs { }',
+    value: {
+      packed: [1, 150, -1],
+      zigzag: [0n, -1n, 1n, -64n],
+      colors: [1, 2, 7],
+      unpacked: [3, 270],
+      strings: ['a', ''],
+      subs: [{ ...sub, id: 1 }, sub],
+    },
+    hex: '0a0d019601ffffffffffffffffff0112040001027f1a030102072003208e022a01612a00320208013200',
+  },
+  {
+    file: 'scalars.proto',
+    message: 'Maps',
+    text:
+      'counts { key: "a" value: 1 } counts { key: "b" value: 0 } ' +
+      'subs { key: -2 value { name: "x" } } flags { key: true value: "\\001" }',
+    value: {
+      counts: new Map([
+        ['a', 1],
+        ['b', 0],
+      ]),
+      subs: new Map([[-2n, { ...sub, name: 'x' }]]),
+      flags: new Map([[true, new Uint8Array([1])]]),
+    },
+    hex: '0a050a016110010a050a01621000121008feffffffffffffffff0112031201781a050801120101',
+  },
+  {
+    file: 'group.proto',
+    message: 'Grouped',
+    text: 'id: 7 Item { name: "g" values: 1 values: 2 } unpacked: [1, 2] packed: [3, 300]',
+    value: {
+      id: 7,
+      item: { name: 'g', values: [1, 2] },
+      unpacked: [1, 2],
+      packed: [3, 300],
+    },
+    hex: '0807131a0167200120021428012802320303ac02',
+  },
+];
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { compile, parseProto } from '@/compiler/compile';
+import { DiagnosticCode } from '@/diagnostic/define';
+
+const SOURCE = `syntax = "proto2";
+message Search {
+  repeated group Result = 1 {
+    required string url = 2;
+    optional int32 rank = 3 [default = 7];
+  }
+  oneof choice {
+    group Pick = 4 { optional int32 id = 5; }
+  }
+}`;
+
+describe('groups', () => {
+  it('declares a nested message and a field named after the group', () => {
+    const { ast, errors } = parseProto(SOURCE);
+    expect(errors).toEqual([]);
+    const [search] = ast!.messages;
+    expect(search.messages.map((message) => message.name.value)).toEqual(['Result', 'Pick']);
+    expect(search.fields[0]).toMatchObject({
+      name: { value: 'result' },
+      fieldType: { name: 'Result' },
+      label: { value: 'repeated' },
+      group: true,
+    });
+    expect(search.oneofs[0].fields[0]).toMatchObject({ name: { value: 'pick' }, group: true });
+  });
+
+  it('types the field with the group message', () => {
+    const { code, errors } = compile(SOURCE);
+    expect(errors).toEqual([]);
+    expect(code).toContain(`export interface Search {
+  result: Search.Result[];
+  pick?: Search.Pick;
+}`);
+    expect(code).toContain(`  export interface Result {
+    url: string;
+    /** @default 7 */
+    rank?: number;
+  }`);
+  });
+});
+
+describe('default values', () => {
+  function getErrors(field: string) {
+    const { errors } = compile(`syntax = "proto2";\nmessage M { ${field} }`);
+    return errors.map(({ code, message }) => ({ code, message }));
+  }
+
+  it.each([
+    'optional int32 a = 1 [default = -2147483648];',
+    'optional uint32 a = 1 [default = 0xFFFFFFFF];',
+    'optional sfixed64 a = 1 [default = -9223372036854775808];',
+    'optional uint64 a = 1 [default = 18446744073709551615];',
+    'optional double a = 1 [default = 1.5];',
+    'optional string a = 1 [default = "a"];',
+    'optional bool a = 1 [default = true];',
+  ])('accepts %s', (field) => {
+    expect(getErrors(field)).toEqual([]);
+  });
+
+  it.each([
+    [
+      'optional int32 c = 3 [default = 3000000000];',
+      'Default value 3000000000 is out of the range of int32',
+    ],
+    [
+      'optional sint32 c = 3 [default = -2147483649];',
+      'Default value -2147483649 is out of the range of sint32',
+    ],
+    ['optional uint32 c = 3 [default = -1];', 'Default value -1 is out of the range of uint32'],
+    [
+      'optional fixed64 c = 3 [default = 0x10000000000000000];',
+      'Default value 0x10000000000000000 is out of the range of fixed64',
+    ],
+    [
+      'optional int64 c = 3 [default = 9223372036854775808];',
+      'Default value 9223372036854775808 is out of the range of int64',
+    ],
+    ['optional int32 c = 3 [default = 1.5];', 'Default value of a int32 field must be an integer'],
+    ['optional int32 c = 3 [default = "1"];', 'Default value of a int32 field must be a number'],
+    ['repeated int32 c = 3 [default = 1];', 'Repeated fields can not have default values'],
+  ])('rejects %s', (field, message) => {
+    expect(getErrors(field)).toEqual([{ code: DiagnosticCode.INVALID_DEFAULT, message }]);
+  });
+});
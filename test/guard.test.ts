@@ -0,0 +1,255 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { importGenerated } from './helper';
+
+type Guard = (value: unknown) => boolean;
+
+const SOURCE = `syntax = "proto3";
+message Integers {
+  int32 a = 1;
+  uint32 b = 2;
+  sint32 c = 3;
+  fixed32 d = 4;
+  sfixed32 e = 5;
+  int64 f = 6;
+  uint64 g = 7;
+  map<uint32, int32> h = 8;
+}`;
+
+const VALID = { a: 0, b: 0, c: 0, d: 0, e: 0, f: 0, g: 0, h: new Map() };
+
+let isIntegers: Guard;
+
+beforeAll(async () => {
+  ({ isIntegers } = await importGenerated<{ isIntegers: Guard }>(SOURCE, { guards: true }));
+});
+
+describe('integer guards', () => {
+  it.each([
+    ['a', -2147483648],
+    ['a', 2147483647],
+    ['b', 4294967295],
+    ['c', -2147483648],
+    ['d', 4294967295],
+    ['e', 2147483647],
+    ['f', -1],
+    ['g', 2 ** 53],
+  ])('accepts %s: %d', (name, value) => {
+    expect(isIntegers({ ...VALID, [name]: value })).toBe(true);
+  });
+
+  it.each([
+    ['a', 2147483648],
+    ['a', -2147483649],
+    ['a', 1e10],
+    ['a', 1.5],
+    ['b', -1],
+    ['b', 4294967296],
+    ['c', 2147483648],
+    ['d', -1],
+    ['e', -2147483649],
+    ['g', -1],
+  ])('rejects %s: %d', (name, value) => {
+    expect(isIntegers({ ...VALID, [name]: value })).toBe(false);
+  });
+
+  it('checks the range of map keys and values', () => {
+    expect(isIntegers({ ...VALID, h: new Map([[1, -1]]) })).toBe(true);
+    expect(isIntegers({ ...VALID, h: new Map([[-1, 1]]) })).toBe(false);
+    expect(isIntegers({ ...VALID, h: new Map([[1, 2 ** 31]]) })).toBe(false);
+  });
+});
+
+const RULES_SOURCE = `syntax = "proto3";
+enum Color {
+  COLOR_UNSPECIFIED = 0;
+  RED = 1;
+  GREEN = 2;
+}
+message Rules {
+  string name = 1 [(validate.rules).string = { min_len: 2, max_len: 4 }];
+  string code = 2 [(buf.validate.field).string.len = 3];
+  string bytes_long = 3 [(validate.rules).string = { min_bytes: 2, max_bytes: 4 }];
+  string id = 4 [(validate.rules).string.pattern = "^[a-z]+$"];
+  string other_id = 5 [(validate.rules).string.pattern = "^[a-z]+$"];
+  string affix = 6 [(validate.rules).string = { prefix: "a", suffix: "z", contains: "m", not_contains: "x" }];
+  string email = 7 [(validate.rules).string.email = true];
+  string uuid = 8 [(buf.validate.field).string.uuid = true];
+  string choice = 9 [(validate.rules).string = { in: ["a", "b"] }];
+  string fixed = 10 [(validate.rules).string.const = "x"];
+  int32 range = 11 [(validate.rules).int32 = { gt: 0, lte: 10 }];
+  int32 listed = 12 [(validate.rules).int32 = { not_in: [3, 4] }];
+  double ratio = 13 [(validate.rules).double = { gte: 0, lt: 1 }];
+  int64 big = 14 [(validate.rules).int64.gte = 5];
+  bytes data = 15 [(validate.rules).bytes.max_len = 2];
+  bool flag = 16 [(validate.rules).bool.const = true];
+  Color color = 17 [(validate.rules).enum = { defined_only: true, not_in: [2] }];
+  string case_insensitive = 18 [(validate.rules).string.pattern = "(?i)abc"];
+}`;
+
+const NESTED_SOURCE = `syntax = "proto3";
+message Inner {
+  int32 value = 1 [(validate.rules).int32.lt = 10];
+}
+message Outer {
+  Inner inner = 1;
+  Inner required = 2 [(validate.rules).message.required = true];
+  repeated int32 items = 3 [(validate.rules).repeated = { min_items: 1, max_items: 3, unique: true, items: { int32: { gt: 0 } } }];
+  repeated Inner children = 4;
+  map<string, int32> counts = 5 [(validate.rules).map = { max_pairs: 2, keys: { string: { min_len: 1 } }, values: { int32: { gte: 0 } } }];
+  map<int32, Inner> lookup = 6;
+  oneof choice {
+    int32 number = 7 [(validate.rules).int32.gt = 0];
+    string text = 8;
+  }
+}`;
+
+const RULES = {
+  name: 'abc',
+  code: 'abc',
+  bytes_long: 'ab',
+  id: 'abc',
+  other_id: 'abc',
+  affix: 'amz',
+  email: 'a@b.co',
+  uuid: '123e4567-e89b-12d3-a456-426614174000',
+  choice: 'a',
+  fixed: 'x',
+  range: 1,
+  listed: 1,
+  ratio: 0.5,
+  big: 5,
+  data: new Uint8Array(2),
+  flag: true,
+  color: 1,
+  case_insensitive: 'anything',
+};
+
+const OUTER = {
+  required: { value: 0 },
+  items: [1],
+  children: [],
+  counts: new Map(),
+  lookup: new Map(),
+};
+
+let isRules: Guard;
+let isOuter: Guard;
+
+beforeAll(async () => {
+  ({ isRules } = await importGenerated<{ isRules: Guard }>(RULES_SOURCE, { guards: true }));
+  ({ isOuter } = await importGenerated<{ isOuter: Guard }>(NESTED_SOURCE, { guards: true }));
+});
+
+describe('validation rules', () => {
+  it('accepts values that pass every rule', () => {
+    expect(isRules(RULES)).toBe(true);
+  });
+
+  it.each<[string, unknown]>([
+    ['name', 'a'],
+    ['name', 'abcde'],
+    ['code', 'ab'],
+    ['bytes_long', 'é'.repeat(3)],
+    ['id', 'ABC'],
+    ['other_id', 'a1'],
+    ['affix', 'bmz'],
+    ['affix', 'amy'],
+    ['affix', 'az'],
+    ['affix', 'amxz'],
+    ['email', 'ab.co'],
+    ['uuid', '123e4567'],
+    ['choice', 'c'],
+    ['fixed', 'y'],
+    ['range', 0],
+    ['range', 11],
+    ['listed', 3],
+    ['ratio', 1],
+    ['ratio', -0.1],
+    ['big', 4],
+    ['data', new Uint8Array(3)],
+    ['flag', false],
+    ['color', 2],
+    ['color', 5],
+  ])('rejects %s: %s', (name, value) => {
+    expect(isRules({ ...RULES, [name]: value })).toBe(false);
+  });
+
+  it('counts string lengths in code points', () => {
+    expect(isRules({ ...RULES, name: '😀😀' })).toBe(true);
+  });
+
+  it('declares each pattern once at the top of the module', () => {
+    const { code } = compile(RULES_SOURCE, { guards: true });
+    expect(code).toContain('const $pattern0 = /^[a-z]+$/;');
+    expect(code).not.toContain('$pattern1');
+    expect(code).not.toContain('RegExp');
+  });
+
+  it('warns about patterns that JavaScript can not parse', () => {
+    const { warnings } = compile(RULES_SOURCE, { guards: true });
+    expect(warnings.map(({ code, position }) => [code, position.line])).toEqual([['V2002', 25]]);
+  });
+});
+
+describe('nested guards', () => {
+  it('accepts a valid message', () => {
+    expect(isOuter(OUTER)).toBe(true);
+    expect(
+      isOuter({
+        ...OUTER,
+        inner: { value: 9 },
+        items: [1, 2, 3],
+        children: [{ value: 1 }],
+        counts: new Map([['a', 0]]),
+        lookup: new Map([[1, { value: 1 }]]),
+        number: 1,
+      }),
+    ).toBe(true);
+  });
+
+  it.each<[string, unknown]>([
+    ['inner', { value: 10 }],
+    ['inner', 1],
+    ['required', undefined],
+    ['items', []],
+    ['items', [1, 2, 3, 4]],
+    ['items', [1, 1]],
+    ['items', [0]],
+    ['children', [{ value: 10 }]],
+    ['counts', new Map([['', 0]])],
+    ['counts', new Map([['a', -1]])],
+    [
+      'counts',
+      new Map([
+        ['a', 0],
+        ['b', 0],
+        ['c', 0],
+      ]),
+    ],
+    ['lookup', new Map([[1, { value: 10 }]])],
+    ['lookup', new Map([['1', { value: 1 }]])],
+    ['number', 0],
+    ['text', 1],
+  ])('rejects %s: %o', (name, value) => {
+    expect(isOuter({ ...OUTER, [name]: value })).toBe(false);
+  });
+
+  it('rejects several members of a oneof', () => {
+    expect(isOuter({ ...OUTER, number: 1 })).toBe(true);
+    expect(isOuter({ ...OUTER, number: 1, text: 'x' })).toBe(false);
+  });
+});
+
+describe('oneof guards', () => {
+  it('checks the member selected by the discriminator', async () => {
+    const { isOuter: isUnion } = await importGenerated<{ isOuter: Guard }>(NESTED_SOURCE, {
+      guards: true,
+      oneofStyle: 'union',
+    });
+    expect(isUnion({ ...OUTER, choice: { $case: 'number', number: 1 } })).toBe(true);
+    expect(isUnion({ ...OUTER, choice: { $case: 'number', number: 0 } })).toBe(false);
+    expect(isUnion({ ...OUTER, choice: { $case: 'text', text: 1 } })).toBe(false);
+    expect(isUnion({ ...OUTER, choice: { $case: 'other' } })).toBe(false);
+  });
+});
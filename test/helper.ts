@@ -0,0 +1,61 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import ts from 'typescript';
+import { expect } from 'vitest';
+import { compile } from '@/compiler/compile';
+import type { GenerateOptions } from '@/compiler/Generate';
+
+/** generated code of a proto file, imported from a temporary file */
+export async function importGenerated<T>(
+  source: string,
+  options: Partial<GenerateOptions>,
+): Promise<T> {
+  const { code, errors } = compile(source, options);
+  expect(errors).toEqual([]);
+  return importCode<T>(code);
+}
+
+/** generated code imported from a temporary file */
+export async function importCode<T>(code: string): Promise<T> {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'proto2ts-'));
+  try {
+    const file = path.join(directory, 'generated.ts');
+    fs.writeFileSync(file, code);
+    return (await import(pathToFileURL(file).href)) as T;
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+/** parsed lib files, shared by the programs of `getTypeErrors` */
+const libFiles = new Map<string, ts.SourceFile | undefined>();
+
+/** type errors of generated code, checked on its own with the given compiler options */
+export function getTypeErrors(code: string, options: ts.CompilerOptions): string[] {
+  const file = 'generated.ts';
+  const compilerOptions: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+    types: [],
+    noEmit: true,
+    ...options,
+  };
+  const host = ts.createCompilerHost(compilerOptions);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (name, languageVersion, ...rest) => {
+    if (name === file) {
+      return ts.createSourceFile(name, code, languageVersion);
+    }
+    if (!libFiles.has(name)) {
+      libFiles.set(name, getSourceFile.call(host, name, languageVersion, ...rest));
+    }
+    return libFiles.get(name);
+  };
+  const program = ts.createProgram([file], compilerOptions, host);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
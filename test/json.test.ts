@@ -0,0 +1,185 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { importGenerated } from './helper';
+
+interface JsonCodec {
+  fromJSON(json: unknown): Record<string, unknown>;
+}
+
+const INTEGERS_SOURCE = `syntax = "proto3";
+message Integers {
+  int32 a = 1;
+  uint32 big = 2;
+  sint32 s = 3;
+  fixed32 f = 4;
+  int64 l = 5;
+  uint64 u = 6;
+  map<int32, string> keys = 7;
+}`;
+
+describe('integer ranges in fromJSON', () => {
+  let Integers: JsonCodec;
+
+  beforeAll(async () => {
+    ({ Integers } = await importGenerated<{ Integers: JsonCodec }>(INTEGERS_SOURCE, {
+      json: true,
+      long: 'string',
+    }));
+  });
+
+  it.each([
+    ['a', 2147483647, 2147483647],
+    ['a', '-2147483648', -2147483648],
+    ['big', 4294967295, 4294967295],
+    ['s', -2147483648, -2147483648],
+    ['f', '4294967295', 4294967295],
+    ['l', '-9223372036854775808', '-9223372036854775808'],
+    ['u', '18446744073709551615', '18446744073709551615'],
+  ])('accepts %s: %j', (name, value, expected) => {
+    expect(Integers.fromJSON({ [name]: value })[name]).toBe(expected);
+  });
+
+  it.each([
+    ['a', 1e10],
+    ['a', '2147483648'],
+    ['big', -1],
+    ['big', 4294967296],
+    ['s', -2147483649],
+    ['f', '-1'],
+    ['l', '9223372036854775808'],
+    ['u', '-1'],
+    ['u', '18446744073709551616'],
+  ])('rejects %s: %j', (name, value) => {
+    expect(() => Integers.fromJSON({ [name]: value })).toThrow(TypeError);
+  });
+
+  it('checks the range of map keys', () => {
+    expect(Integers.fromJSON({ keys: { '-1': 'a' } }).keys).toEqual(new Map([[-1, 'a']]));
+    expect(() => Integers.fromJSON({ keys: { '2147483648': 'a' } })).toThrow(TypeError);
+    expect(() => Integers.fromJSON({ keys: { a: 'a' } })).toThrow(TypeError);
+  });
+});
+
+const MESSAGE_SOURCE = `syntax = "proto3";
+enum Role {
+  ROLE_UNSPECIFIED = 0;
+  ADMIN = 1;
+}
+message User {
+  int64 user_id = 1;
+  string display_name = 2 [json_name = "name"];
+  bytes avatar = 3;
+  Role role = 4;
+  repeated string tags = 5;
+  map<string, int32> scores = 6;
+  optional int32 age = 7;
+  oneof contact {
+    string email = 8;
+    string phone = 9;
+  }
+}`;
+
+interface UserCodec {
+  toJSON(message: Record<string, unknown>, options?: { emitDefaults?: boolean }): unknown;
+  fromJSON(json: unknown): Record<string, unknown>;
+}
+
+const EMPTY_USER = {
+  user_id: 0,
+  display_name: '',
+  avatar: new Uint8Array(),
+  role: 0,
+  tags: [],
+  scores: new Map(),
+};
+
+describe('canonical JSON mapping', () => {
+  let User: UserCodec;
+
+  beforeAll(async () => {
+    ({ User } = await importGenerated<{ User: UserCodec }>(MESSAGE_SOURCE, { json: true }));
+  });
+
+  it('writes JSON names, 64-bit strings, base64 and enum names', () => {
+    const json = User.toJSON({
+      ...EMPTY_USER,
+      user_id: 42,
+      display_name: 'Ada',
+      avatar: new Uint8Array([1, 2, 3]),
+      role: 1,
+      tags: ['a'],
+      scores: new Map([['x', 1]]),
+      age: 0,
+      email: 'a@b.co',
+    });
+    expect(json).toEqual({
+      userId: '42',
+      name: 'Ada',
+      avatar: 'AQID',
+      role: 'ADMIN',
+      tags: ['a'],
+      scores: { x: 1 },
+      age: 0,
+      email: 'a@b.co',
+    });
+  });
+
+  it('leaves out default values unless emitDefaults is set', () => {
+    expect(User.toJSON(EMPTY_USER)).toEqual({});
+    expect(User.toJSON(EMPTY_USER, { emitDefaults: true })).toEqual({
+      userId: '0',
+      name: '',
+      avatar: '',
+      role: 'ROLE_UNSPECIFIED',
+      tags: [],
+      scores: {},
+    });
+  });
+
+  it('reads JSON names and proto names', () => {
+    expect(User.fromJSON({ userId: '7', name: 'Ada' })).toMatchObject({
+      user_id: 7,
+      display_name: 'Ada',
+    });
+    expect(User.fromJSON({ user_id: 7, display_name: 'Ada' })).toMatchObject({
+      user_id: 7,
+      display_name: 'Ada',
+    });
+  });
+
+  it('reads standard and URL-safe base64', () => {
+    expect(User.fromJSON({ avatar: '+/8=' }).avatar).toEqual(new Uint8Array([251, 255]));
+    expect(User.fromJSON({ avatar: '-_8' }).avatar).toEqual(new Uint8Array([251, 255]));
+    expect(() => User.fromJSON({ avatar: '@' })).toThrow(TypeError);
+  });
+
+  it('reads enums as names or numbers', () => {
+    expect(User.fromJSON({ role: 'ADMIN' }).role).toBe(1);
+    expect(User.fromJSON({ role: 1 }).role).toBe(1);
+  });
+
+  it('reads null as the default value', () => {
+    expect(User.fromJSON({ name: null, tags: null, age: null })).toEqual(EMPTY_USER);
+  });
+});
+
+describe.each(['optional', 'union', 'kind'] as const)('%s oneofs in fromJSON', (oneofStyle) => {
+  let User: UserCodec;
+
+  beforeAll(async () => {
+    ({ User } = await importGenerated<{ User: UserCodec }>(MESSAGE_SOURCE, {
+      json: true,
+      oneofStyle,
+    }));
+  });
+
+  it('reads a single member', () => {
+    const message = User.fromJSON({ phone: '1' });
+    expect(User.toJSON(message)).toEqual({ phone: '1' });
+  });
+
+  it('throws on several members', () => {
+    expect(() => User.fromJSON({ email: 'a@b.co', phone: '1' })).toThrow(
+      new TypeError('Expected a single field of oneof contact'),
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { importGenerated } from './helper';
+
+type Guard = (value: unknown) => boolean;
+
+const SOURCE = `syntax = "proto3";
+enum Role {
+  ROLE_UNSPECIFIED = 0;
+  ADMIN = 1;
+}
+message User {
+  int64 user_id = 1;
+  string display_name = 2 [json_name = "name"];
+  bytes avatar = 3;
+  Role role = 4;
+  repeated string tags = 5;
+  map<int32, string> labels = 6;
+  User parent = 7;
+  oneof contact {
+    string email_address = 8;
+    string phone = 9;
+  }
+}`;
+
+describe('jsonMapping', () => {
+  it('types every property of the JSON form as optional', () => {
+    const { code } = compile(SOURCE, { jsonMapping: true });
+    expect(code).toContain(`export interface User {
+  userId?: string;
+  name?: string;
+  avatar?: string;
+  role?: 'ROLE_UNSPECIFIED' | 'ADMIN';
+  tags?: string[];
+  labels?: Record<number, string>;
+  parent?: User;
+  emailAddress?: string;
+  phone?: string;
+}`);
+  });
+
+  it.each(['optional', 'union', 'kind'] as const)(
+    'keeps the members of %s oneofs as flat properties',
+    async (oneofStyle) => {
+      const { code } = compile(SOURCE, { jsonMapping: true, oneofStyle });
+      expect(code).not.toContain('contact');
+      const { isUser } = await importGenerated<{ isUser: Guard }>(SOURCE, {
+        jsonMapping: true,
+        guards: true,
+        oneofStyle,
+      });
+      expect(isUser({ phone: '1' })).toBe(true);
+      expect(isUser({ emailAddress: 'a@b.co', phone: '1' })).toBe(false);
+    },
+  );
+
+  it('accepts the JSON that leaves out default values', async () => {
+    const { isUser } = await importGenerated<{ isUser: Guard }>(SOURCE, {
+      jsonMapping: true,
+      guards: true,
+    });
+    expect(isUser({})).toBe(true);
+    expect(isUser({ userId: '1', role: 'ADMIN', tags: ['a'], labels: { 1: 'a' } })).toBe(true);
+    expect(isUser({ userId: 1 })).toBe(false);
+    expect(isUser({ role: 1 })).toBe(false);
+    expect(isUser({ parent: { name: 1 } })).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { DiagnosticCode } from '@/diagnostic/define';
+import { Lexer } from '@/lexer/Lexer';
+import { TokenType } from '@/lexer/TokenType';
+
+function tokenize(source: string) {
+  return new Lexer(source).tokenize();
+}
+
+/** the only token of `source`, the source must lex without errors */
+function lexToken(source: string) {
+  const { tokens, errors } = tokenize(source);
+  expect(errors).toEqual([]);
+  expect(tokens).toHaveLength(1);
+  return tokens[0];
+}
+
+describe('number literals', () => {
+  it.each(['0', '42', '-7', '+7', '0x1F', '0XAbC', '-0x10', '017', '-017', '00'])(
+    'reads the integer %s',
+    (source) => {
+      const token = lexToken(source);
+      expect(token.type).toBe(TokenType.NUMBER_LITERAL);
+      expect(token.value).toBe(source);
+    },
+  );
+
+  it.each(['1.5', '.5', '1.', '1e10', '1E-3', '2.5e+3', '-.5e1', '0.0'])(
+    'reads the float %s',
+    (source) => {
+      const token = lexToken(source);
+      expect(token.type).toBe(TokenType.NUMBER_LITERAL);
+      expect(token.value).toBe(source);
+    },
+  );
+
+  it.each(['-inf', '+inf', '-nan', '+nan'])('reads the signed %s as a number', (source) => {
+    const token = lexToken(source);
+    expect(token.type).toBe(TokenType.NUMBER_LITERAL);
+    expect(token.value).toBe(source);
+  });
+
+  it.each(['inf', 'nan'])('reads the unsigned %s as an identifier', (source) => {
+    expect(lexToken(source).type).toBe(TokenType.IDENTIFIER);
+  });
+
+  it('does not read a signed identifier starting with inf as a number', () => {
+    const { tokens } = tokenize('-infinite');
+    expect(tokens[0].type).not.toBe(TokenType.NUMBER_LITERAL);
+  });
+
+  it.each([
+    ['0x', 'Expect hex digits after "0x"'],
+    ['089', 'Invalid octal number: 089'],
+    ['1e', 'Expect digits in the exponent'],
+    ['1e+', 'Expect digits in the exponent'],
+    ['12abc', 'Expect whitespace between a number and an identifier'],
+  ])('reports the invalid number %s', (source, message) => {
+    const { tokens, errors } = tokenize(source);
+    expect(tokens.map((token) => token.value)).toEqual([source]);
+    expect(errors).toMatchObject([{ code: DiagnosticCode.INVALID_NUMBER, message }]);
+  });
+});
+
+describe('string literals', () => {
+  it.each([`"hello"`, `'hello'`])('reads %s', (source) => {
+    const token = lexToken(source);
+    expect(token.type).toBe(TokenType.STRING_LITERAL);
+    expect(token.value).toBe('hello');
+    expect(token.bytes).toEqual(new TextEncoder().encode('hello'));
+  });
+
+  it('keeps the other quote inside a string', () => {
+    expect(lexToken(`'say "hi"'`).value).toBe('say "hi"');
+    expect(lexToken(`"it's"`).value).toBe("it's");
+  });
+
+  it.each([
+    ['\\a', '\x07'],
+    ['\\b', '\b'],
+    ['\\f', '\f'],
+    ['\\n', '\n'],
+    ['\\r', '\r'],
+    ['\\t', '\t'],
+    ['\\v', '\v'],
+    ['\\\\', '\\'],
+    ["\\'", "'"],
+    ['\\"', '"'],
+    ['\\?', '?'],
+  ])('reads the character escape %s', (escape, value) => {
+    const token = lexToken(`"${escape}"`);
+    expect(token.value).toBe(value);
+    expect(token.bytes).toEqual(new Uint8Array([value.charCodeAt(0)]));
+  });
+
+  it.each([
+    ['\\x41', [0x41]],
+    ['\\X4a', [0x4a]],
+    ['\\x7', [0x07]],
+    ['\\x414', [0x41, 0x34]],
+    ['\\101', [0x41]],
+    ['\\0', [0]],
+    ['\\12', [0o12]],
+    ['\\1012', [0x41, 0x32]],
+    ['\\377', [0xff]],
+  ])('reads the byte escape %s as a byte', (escape, bytes) => {
+    expect(lexToken(`"${escape}"`).bytes).toEqual(new Uint8Array(bytes));
+  });
+
+  it('decodes byte escapes as UTF-8', () => {
+    const token = lexToken('"\\303\\251t\\xC3\\xA9"');
+    expect(token.value).toBe('été');
+    expect(token.bytes).toEqual(new Uint8Array([0xc3, 0xa9, 0x74, 0xc3, 0xa9]));
+  });
+
+  it('replaces invalid UTF-8 in the value but keeps the bytes', () => {
+    const token = lexToken('"\\377"');
+    expect(token.value).toBe('�');
+    expect(token.bytes).toEqual(new Uint8Array([0xff]));
+  });
+
+  it.each([
+    ['\\u00e9', 'é', [0xc3, 0xa9]],
+    ['\\u20AC', '€', [0xe2, 0x82, 0xac]],
+    ['\\U0001F600', '😀', [0xf0, 0x9f, 0x98, 0x80]],
+  ])('reads the unicode escape %s as UTF-8', (escape, value, bytes) => {
+    const token = lexToken(`"${escape}"`);
+    expect(token.value).toBe(value);
+    expect(token.bytes).toEqual(new Uint8Array(bytes));
+  });
+
+  it('encodes literal characters as UTF-8', () => {
+    const token = lexToken(`'é😀'`);
+    expect(token.value).toBe('é😀');
+    expect(token.bytes).toEqual(new Uint8Array([0xc3, 0xa9, 0xf0, 0x9f, 0x98, 0x80]));
+  });
+
+  it.each(['\\q', '\\x', '\\u12', '\\U00110000'])('reports the invalid escape %s', (escape) => {
+    const { tokens, errors } = tokenize(`"${escape}"`);
+    expect(tokens).toHaveLength(1);
+    expect(errors).toMatchObject([
+      { code: DiagnosticCode.INVALID_ESCAPE, message: `Invalid escape sequence: ${escape}` },
+    ]);
+  });
+
+  it('reports a string that reaches the end of the line', () => {
+    const { tokens, errors } = tokenize('"abc\nfoo');
+    expect(tokens.map((token) => token.value)).toEqual(['abc', 'foo']);
+    expect(errors).toMatchObject([{ code: DiagnosticCode.UNTERMINATED_STRING, line: 1 }]);
+  });
+});
+
+describe('unknown characters', () => {
+  it('reports a run of unknown characters once', () => {
+    const { tokens, errors } = tokenize('a @@@ $$$ b');
+    expect(tokens.map((token) => token.value)).toEqual(['a', 'b']);
+    expect(errors).toEqual([
+      {
+        code: DiagnosticCode.UNKNOWN_CHARACTER,
+        message: 'Unknown characters: @@@',
+        line: 1,
+        column: 3,
+        position: 2,
+        length: 3,
+      },
+      {
+        code: DiagnosticCode.UNKNOWN_CHARACTER,
+        message: 'Unknown characters: $$$',
+        line: 1,
+        column: 7,
+        position: 6,
+        length: 3,
+      },
+    ]);
+  });
+
+  it('ends a run at the next token', () => {
+    const { tokens, errors } = tokenize('@foo#1');
+    expect(tokens.map((token) => token.value)).toEqual(['foo', '1']);
+    expect(errors).toMatchObject([
+      { message: 'Unknown character: @', column: 1 },
+      { message: 'Unknown character: #', column: 5 },
+    ]);
+  });
+});
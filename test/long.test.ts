@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { importGenerated } from './helper';
+
+interface MessageCodec {
+  encode(message: unknown): Uint8Array;
+  decode(bytes: Uint8Array): Record<string, unknown>;
+  toJSON(message: unknown): unknown;
+  fromJSON(json: unknown): Record<string, unknown>;
+}
+
+const SOURCE = `syntax = "proto3";
+message Counter {
+  int64 total = 1;
+  uint64 max = 2;
+  sint64 delta = 3;
+  fixed64 stamp = 4;
+  map<int64, string> names = 5;
+}`;
+
+const LONG_SOURCE = `syntax = "proto3";
+message Long {
+  int64 id = 1;
+  map<uint64, string> names = 2;
+}`;
+
+const CODEC_OPTIONS = { binary: true, json: true, guards: true };
+
+describe('long representations', () => {
+  it.each([
+    ['number', 'number'],
+    ['string', 'string'],
+    ['bigint', 'bigint'],
+    ['Long', 'Long'],
+  ] as const)('types 64-bit integers as %s', (long, type) => {
+    const { code } = compile(SOURCE, { long });
+    expect(code).toContain(`  total: ${type};\n  max: ${type};`);
+  });
+
+  it.each([
+    ['number', -5, 7],
+    ['string', '-5', '7'],
+    ['bigint', BigInt(-5), BigInt(7)],
+  ] as const)('round trips %s values', async (long, delta, key) => {
+    const { Counter } = await importGenerated<{ Counter: MessageCodec }>(SOURCE, {
+      ...CODEC_OPTIONS,
+      long,
+    });
+    const message = Counter.fromJSON({ total: '1', delta: -5, names: { 7: 'a' } });
+    expect(message.delta).toEqual(delta);
+    expect(message.names).toEqual(new Map([[key, 'a']]));
+    expect(Counter.decode(Counter.encode(message))).toEqual(message);
+    expect(Counter.toJSON(message)).toEqual({ total: '1', delta: '-5', names: { 7: 'a' } });
+  });
+
+  it('writes the 64-bit integers of the JSON mapping as strings', async () => {
+    const { Counter } = await importGenerated<{ Counter: MessageCodec }>(SOURCE, {
+      ...CODEC_OPTIONS,
+      long: 'number',
+    });
+    const message = Counter.fromJSON({ max: '4294967296', stamp: 1 });
+    expect(message).toMatchObject({ max: 4294967296, stamp: 1 });
+    expect(Counter.toJSON(message)).toEqual({ max: '4294967296', stamp: '1' });
+    expect(() => Counter.fromJSON({ max: -1 })).toThrow(
+      'Expected an integer in the range of uint64',
+    );
+  });
+});
+
+describe('Long', () => {
+  it('imports the long package only for the codecs', () => {
+    expect(compile(SOURCE, { long: 'Long' }).code).toContain("import type Long from 'long';");
+    expect(compile(SOURCE, { long: 'Long', binary: true }).code).toContain(
+      "import Long from 'long';",
+    );
+    expect(compile(SOURCE, { long: 'bigint' }).code).not.toContain("from 'long'");
+  });
+
+  it('aliases the import of a file that declares Long', () => {
+    const { code } = compile(LONG_SOURCE, { ...CODEC_OPTIONS, long: 'Long' });
+    expect(code).toContain("import Long$1 from 'long';");
+    expect(code).toContain(`export interface Long {
+  id: Long$1;
+  names: Map<string, string>;`);
+    expect(code).toContain('message.id = Long$1.fromString(reader.int64().toString(), false);');
+    expect(code).toContain("field = value['id'];\n  if (!Long$1.isLong(field)) {");
+    expect(code).not.toMatch(/\bLong\.(fromString|isLong|ZERO)/);
+  });
+
+  it('keys maps by the decimal strings of 64-bit keys', () => {
+    const { code } = compile(SOURCE, { ...CODEC_OPTIONS, long: 'Long' });
+    expect(code).toContain('names: Map<string, string>;');
+    expect(code).toContain("let key = '0';");
+    expect(code).toContain('key = entry.int64().toString();');
+    expect(code).toContain("[$jsonInteger(key, 'int64'), $jsonString(item)]");
+    expect(code).toContain("typeof key === 'string' && typeof item === 'string'");
+  });
+
+  it('keeps the number keys of Record maps', () => {
+    const { code } = compile(SOURCE, { long: 'Long', mapType: 'Record' });
+    expect(code).toContain('names: Record<string, string>;');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { compile, parseProto } from '@/compiler/compile';
+import { DiagnosticCode } from '@/diagnostic/define';
+import { importGenerated } from './helper';
+
+interface MessageCodec {
+  encode(message: unknown): Uint8Array;
+  decode(bytes: Uint8Array): Record<string, unknown>;
+  toJSON(message: unknown): unknown;
+  fromJSON(json: unknown): Record<string, unknown>;
+}
+
+const SOURCE = `syntax = "proto3";
+enum E { E_UNSPECIFIED = 0; E_ONE = 1; }
+message V { string s = 1; }
+message M {
+  map<string, int32> counts = 1;
+  map<int64, V> values = 2;
+  map<bool, E> flags = 3;
+  map<fixed32, bytes> data = 4;
+}`;
+
+describe('map fields', () => {
+  it('parses the key and value types of map<K, V>', () => {
+    const { ast, errors } = parseProto(SOURCE);
+    expect(errors).toEqual([]);
+    const field = ast!.messages[1].fields[1];
+    expect(field.fieldType.name).toBe('map');
+    expect(field.fieldType.arguments.map((item) => item.value)).toEqual(['int64', 'V']);
+  });
+
+  it('generates Map properties by default', () => {
+    const { code } = compile(SOURCE);
+    expect(code).toContain(`export interface M {
+  counts: Map<string, number>;
+  values: Map<number, V>;
+  flags: Map<boolean, E>;
+  data: Map<number, Uint8Array>;
+}`);
+  });
+
+  it('generates Record properties with string keys for booleans', () => {
+    const { code } = compile(SOURCE, { mapType: 'Record' });
+    expect(code).toContain(`export interface M {
+  counts: Record<string, number>;
+  values: Record<number, V>;
+  flags: Record<string, E>;
+  data: Record<number, Uint8Array>;
+}`);
+  });
+
+  it.each(['float', 'double', 'bytes', 'E', 'V', 'pkg.V'])('rejects %s keys', (type) => {
+    const { errors } = compile(
+      `syntax = "proto3";\nenum E { E_UNSPECIFIED = 0; }\nmessage V {}\nmessage M {\n  map<${type}, string> m = 1;\n}`,
+    );
+    expect(errors).toMatchObject([
+      {
+        code: DiagnosticCode.INVALID_MAP_KEY_TYPE,
+        message: `Invalid map key type: ${type}`,
+        position: { line: 5, column: 7 },
+      },
+    ]);
+  });
+
+  it('rejects labels on map fields', () => {
+    const { errors } = compile(
+      'syntax = "proto3";\nmessage M {\n  repeated map<string, string> m = 1;\n}',
+    );
+    expect(errors).toMatchObject([{ code: DiagnosticCode.MAP_FIELD_LABEL, position: { line: 3 } }]);
+  });
+
+  it.each(['Map', 'Record'] as const)('round trips %s maps', async (mapType) => {
+    const { M } = await importGenerated<{ M: MessageCodec }>(SOURCE, {
+      binary: true,
+      json: true,
+      mapType,
+      long: 'bigint',
+    });
+    const json = {
+      counts: { a: 1, b: 2 },
+      values: { '-1': { s: 'x' } },
+      flags: { true: 'E_ONE' },
+      data: { 7: 'AQI=' },
+    };
+    const message = M.fromJSON(json);
+    if (mapType === 'Map') {
+      expect(message.values).toEqual(new Map([[BigInt(-1), { s: 'x' }]]));
+      expect(message.flags).toEqual(new Map([[true, 1]]));
+    } else {
+      expect(message.values).toEqual({ '-1': { s: 'x' } });
+      expect(message.flags).toEqual({ true: 1 });
+    }
+    expect(M.decode(M.encode(message))).toEqual(message);
+    expect(M.toJSON(message)).toEqual(json);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { getTypeErrors, importGenerated } from './helper';
+
+interface MessageCodec {
+  encode(message: unknown): Uint8Array;
+  decode(bytes: Uint8Array): Record<string, unknown>;
+}
+
+const SOURCE = `syntax = "proto3";
+message Outer {
+  message Inner {
+    oneof value {
+      string text = 1;
+      int32 number = 2;
+    }
+  }
+  oneof choice {
+    Inner inner = 1;
+    bool flag = 2;
+  }
+  string name = 3;
+}`;
+
+describe('oneof styles', () => {
+  it('makes every member optional', () => {
+    const { code } = compile(SOURCE, { oneofStyle: 'optional' });
+    expect(code).toContain(`  export interface Inner {
+    text?: string;
+    number?: number;
+  }`);
+    expect(code).toContain(`export interface Outer {
+  name: string;
+  inner?: Outer.Inner;
+  flag?: boolean;
+}`);
+  });
+
+  it('generates a discriminated union on $case', () => {
+    const { code } = compile(SOURCE, { oneofStyle: 'union' });
+    expect(code).toContain(`    value?:
+      | { $case: 'text'; text: string }
+      | { $case: 'number'; number: number };`);
+    expect(code).toContain(`  choice?:
+    | { $case: 'inner'; inner: Outer.Inner }
+    | { $case: 'flag'; flag: boolean };`);
+  });
+
+  it('generates a oneofKind property that is always present', () => {
+    const { code } = compile(SOURCE, { oneofStyle: 'kind' });
+    expect(code).toContain(`  choice:
+    | { oneofKind: 'inner'; inner: Outer.Inner }
+    | { oneofKind: 'flag'; flag: boolean }
+    | { oneofKind: undefined };`);
+  });
+
+  it.each([
+    ['union', "const outer: Outer = { name: '', choice: { $case: 'flag', flag: true } };"],
+    ['kind', "const outer: Outer = { name: '', choice: { oneofKind: 'flag', flag: true } };"],
+  ] as const)(
+    'narrows the members of %s oneofs',
+    (oneofStyle, usage) => {
+      const { code } = compile(SOURCE, { oneofStyle });
+      const discriminator = oneofStyle === 'union' ? '$case' : 'oneofKind';
+      const narrowing = `if (outer.choice?.${discriminator} === 'flag') { const flag: boolean = outer.choice.flag; }`;
+      expect(getTypeErrors(`${code}\n${usage}\n${narrowing}\n`, { strict: true })).toEqual([]);
+      const wrong = usage.replace('flag: true', 'flag: 1');
+      expect(getTypeErrors(`${code}\n${wrong}\n`, { strict: true })).not.toEqual([]);
+    },
+    30000,
+  );
+
+  it.each([
+    ['optional', { name: 'a', inner: { number: 5 } }],
+    [
+      'union',
+      { name: 'a', choice: { $case: 'inner', inner: { value: { $case: 'number', number: 5 } } } },
+    ],
+    [
+      'kind',
+      {
+        name: 'a',
+        choice: { oneofKind: 'inner', inner: { value: { oneofKind: 'number', number: 5 } } },
+      },
+    ],
+  ] as const)('round trips nested %s oneofs', async (oneofStyle, message) => {
+    const { Outer } = await importGenerated<{ Outer: MessageCodec }>(SOURCE, {
+      binary: true,
+      oneofStyle,
+    });
+    expect(Outer.decode(Outer.encode(message))).toEqual(message);
+  });
+});
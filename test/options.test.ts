@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { parseProto } from '@/compiler/compile';
+
+function parse(source: string) {
+  const { ast, errors } = parseProto(source);
+  expect(errors).toEqual([]);
+  return ast!;
+}
+
+describe('option names', () => {
+  it.each(['foo', 'foo.bar', '(foo)', '(foo.bar)', '(.foo.bar).baz', '(a.b).(c.d).e', '(a).(b)'])(
+    'parses the file option %s',
+    (name) => {
+      const ast = parse(`syntax = "proto3";\noption ${name} = 1;`);
+      expect(ast.options[0].name.value).toBe(name);
+    },
+  );
+
+  it('parses parenthesized parts in field options', () => {
+    const ast = parse(
+      'syntax = "proto3";\nmessage M { int32 a = 1 [(a.b).(c.d).e = 1, (x).y = 2]; }',
+    );
+    const names = ast.messages[0].fields[0].options.map((option) => option.name.value);
+    expect(names).toEqual(['(a.b).(c.d).e', '(x).y']);
+  });
+
+  it('reports a missing name after a dot', () => {
+    const { errors } = parseProto('syntax = "proto3";\noption (a). = 1;');
+    expect(errors).toMatchObject([{ message: 'Expect identifier after "."' }]);
+  });
+});
+
+describe('extension ranges', () => {
+  it('parses the options of extension ranges', () => {
+    const ast = parse(`syntax = "proto2";
+message M {
+  extensions 5 [declaration = { number: 5, full_name: ".a.b", type: "int32" }];
+  extensions 10 to max [verification = UNVERIFIED];
+}`);
+    const { extensions } = ast.messages[0];
+    expect(extensions?.ranges).toHaveLength(2);
+    expect(extensions?.options.map((option) => option.name.value)).toEqual([
+      'declaration',
+      'verification',
+    ]);
+    expect(extensions?.options[0].value).toMatchObject({
+      fields: [
+        { name: { value: 'number' }, value: { value: '5' } },
+        { name: { value: 'full_name' }, value: { value: '.a.b' } },
+        { name: { value: 'type' }, value: { value: 'int32' } },
+      ],
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { compileProject } from '@/compiler/compileProject';
+import { getTypeErrors } from './helper';
+
+const FILES = {
+  'auth.proto': 'syntax = "proto3";\npackage acme.auth;\nmessage User { string id = 1; }\n',
+  'shop.proto': `syntax = "proto3";
+package acme.shop;
+import "auth.proto";
+message User { acme.auth.User account = 1; }
+message Order { User buyer = 1; auth.User seller = 2; }
+`,
+};
+
+/** generated code of `shop.proto` */
+function compileShop(packageMode: 'none' | 'namespace' | 'flatten'): string {
+  const { files, errors } = compileProject(['shop.proto'], { files: FILES }, { packageMode });
+  expect(errors).toEqual([]);
+  return files[0].code;
+}
+
+describe('package modes', () => {
+  it('aliases a type of another package with the same name', () => {
+    const code = compileShop('none');
+    expect(code).toContain("import type { User as User$1 } from './auth';");
+    expect(code).toContain('  account?: User$1;');
+    expect(code).toContain('  buyer?: User;\n  seller?: User$1;');
+  });
+
+  it('wraps the declarations in a namespace of the package', () => {
+    const code = compileShop('namespace');
+    expect(code).toContain("import type { acme as acme$1 } from './auth';");
+    expect(code).toContain('export namespace acme.shop {');
+    expect(code).toContain('    account?: acme$1.auth.User;');
+    expect(code).toContain('    buyer?: User;\n    seller?: acme$1.auth.User;');
+  });
+
+  it('prefixes the names with the package', () => {
+    const code = compileShop('flatten');
+    expect(code).toContain("import type { acme_auth_User } from './auth';");
+    expect(code).toContain('export interface acme_shop_User {\n  account?: acme_auth_User;\n}');
+    expect(code).toContain('  buyer?: acme_shop_User;\n  seller?: acme_auth_User;');
+  });
+
+  it('leaves files without a package unwrapped', () => {
+    const { code } = compile('syntax = "proto3";\nmessage M {}', { packageMode: 'namespace' });
+    expect(code).toContain('\nexport interface M {\n}');
+  });
+
+  it.each(['namespace', 'flatten'] as const)(
+    'type-checks the %s mode',
+    (packageMode) => {
+      const { code } = compile(FILES['auth.proto'], {
+        packageMode,
+        binary: true,
+        json: true,
+        guards: true,
+      });
+      expect(getTypeErrors(code, { strict: true })).toEqual([]);
+    },
+    30000,
+  );
+});
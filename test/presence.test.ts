@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { getTypeErrors } from './helper';
+
+const PROTO3_SOURCE = `syntax = "proto3";
+message Sub { int32 x = 1; }
+message M {
+  string a = 1;
+  optional string b = 2;
+  Sub c = 3;
+  repeated int32 d = 4;
+  map<string, int32> e = 5;
+}`;
+
+describe('field presence', () => {
+  it('makes proto3 messages and optional fields optional', () => {
+    const { code } = compile(PROTO3_SOURCE);
+    expect(code).toContain(`export interface M {
+  a: string;
+  b?: string;
+  c?: Sub;
+  d: number[];
+  e: Map<string, number>;
+}`);
+  });
+
+  it('makes every proto2 field but required and repeated ones optional', () => {
+    const { code } = compile(`syntax = "proto2";
+message M {
+  optional string a = 1;
+  required string b = 2;
+  repeated int32 d = 4;
+  optional int32 f = 5 [default = 3];
+}`);
+    expect(code).toContain(`export interface M {
+  a?: string;
+  b: string;
+  d: number[];
+  /** @default 3 */
+  f?: number;
+}`);
+  });
+
+  it('follows the field_presence feature of editions', () => {
+    const { code } = compile(`edition = "2023";
+message M {
+  string a = 1 [features.field_presence = IMPLICIT];
+  string b = 2;
+}`);
+    expect(code).toContain('export interface M {\n  a: string;\n  b?: string;\n}');
+  });
+
+  it('makes every property optional with all-optional', () => {
+    const { code } = compile(PROTO3_SOURCE, { presence: 'all-optional' });
+    expect(code).toContain(`export interface M {
+  a?: string;
+  b?: string;
+  c?: Sub;
+  d?: number[];
+  e?: Map<string, number>;
+}`);
+  });
+
+  it('adds deeply partial input types with partial-input', () => {
+    const { code } = compile(PROTO3_SOURCE, { presence: 'partial-input' });
+    expect(code).toContain('  a: string;\n  b?: string;');
+    expect(code).toContain('export type MInput = $DeepPartial<M>;');
+    const usage = `
+const input: MInput = { c: {}, e: new Map([['a', 1]]) };
+const decoded: M = { a: '', d: [], e: new Map() };
+// @ts-expect-error decoded messages keep their required properties
+const missing: M = { a: '' };
+`;
+    expect(getTypeErrors(`${code}\n${usage}`, { strict: true })).toEqual([]);
+  }, 30000);
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { compileProject } from '@/compiler/compileProject';
+import { DiagnosticCode } from '@/diagnostic/define';
+
+const FILES = {
+  'a.proto':
+    'syntax = "proto3";\npackage a;\nimport "b.proto";\nmessage A { b.B b = 1; c.C c = 2; }\n',
+  'b.proto': 'syntax = "proto3";\npackage b;\nimport public "c.proto";\nmessage B {}\n',
+  'c.proto': 'syntax = "proto3";\npackage c;\nmessage C {}\n',
+  'f.proto': 'syntax = "proto3";\nimport "c.proto";\nmessage F { c.C c = 1; b.B b = 2; }\n',
+  'x.proto': 'syntax = "proto3";\nimport "y.proto";\n',
+  'y.proto': 'syntax = "proto3";\nimport "x.proto";\n',
+  'm.proto': 'syntax = "proto3";\nimport "missing.proto";\n',
+};
+
+describe('compileProject', () => {
+  it('compiles the imported files transitively', () => {
+    const { files, errors } = compileProject(['a.proto'], { files: FILES });
+    expect(errors).toEqual([]);
+    expect(files.map((file) => file.path)).toEqual(['a.proto', 'b.proto', 'c.proto']);
+  });
+
+  it('imports the types a file uses, through public imports too', () => {
+    const { files } = compileProject(['a.proto'], { files: FILES });
+    const code = files[0].code;
+    expect(code).toContain("import type { B } from './b';\nimport type { C } from './c';");
+    expect(code).toContain('  b?: B;\n  c?: C;');
+    expect(files[1].code).not.toContain('import');
+  });
+
+  it('reports types of files that are not imported', () => {
+    const { errors } = compileProject(['f.proto'], { files: FILES });
+    expect(errors).toMatchObject([
+      {
+        code: DiagnosticCode.UNDEFINED_TYPE,
+        message: '"b.B" is not defined',
+        file: 'f.proto',
+        position: { line: 3, column: 24 },
+      },
+    ]);
+  });
+
+  it('resolves imports against the include paths', () => {
+    const { files, errors } = compileProject(['e.proto'], {
+      files: {
+        'e.proto': 'syntax = "proto3";\nimport "d.proto";\nmessage E { D d = 1; }\n',
+        'inc/d.proto': 'syntax = "proto3";\nmessage D {}\n',
+      },
+      includePaths: ['', 'inc'],
+    });
+    expect(errors).toEqual([]);
+    expect(files.map((file) => file.path)).toEqual(['e.proto', 'd.proto']);
+    expect(files[0].code).toContain("import type { D } from './d';");
+  });
+
+  it('loads files with the loader', () => {
+    const { files, errors } = compileProject(['a.proto'], {
+      loader: (path) => FILES[path as keyof typeof FILES] ?? null,
+    });
+    expect(errors).toEqual([]);
+    expect(files).toHaveLength(3);
+  });
+
+  it('reports missing files at the import', () => {
+    const { files, errors } = compileProject(['m.proto'], { files: FILES });
+    expect(files).toEqual([]);
+    expect(errors).toMatchObject([
+      {
+        code: DiagnosticCode.FILE_NOT_FOUND,
+        message: 'File not found: missing.proto',
+        file: 'm.proto',
+        position: { line: 2, column: 8 },
+      },
+    ]);
+  });
+
+  it('reports import cycles', () => {
+    const { files, errors } = compileProject(['x.proto'], { files: FILES });
+    expect(files).toEqual([]);
+    expect(errors).toMatchObject([
+      {
+        code: DiagnosticCode.IMPORT_CYCLE,
+        message: 'Import cycle: x.proto -> y.proto -> x.proto',
+        file: 'y.proto',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { parseProto } from '@/compiler/compile';
+import { DiagnosticCode } from '@/diagnostic/define';
+
+describe('error recovery', () => {
+  it('reports a missing semicolon at the end of its line', () => {
+    const { ast, errors } = parseProto(
+      'syntax = "proto3";\nmessage A {\n  int32 a = 1\n  int32 b = 2;\n}\nmessage B {}\n',
+    );
+    expect(errors).toMatchObject([
+      {
+        code: DiagnosticCode.UNEXPECTED_TOKEN,
+        message: 'Expect ";" after field value',
+        position: { line: 3, column: 14 },
+      },
+    ]);
+    expect(ast!.messages.map((node) => node.name.value)).toEqual(['A', 'B']);
+    expect(ast!.messages[0].fields.map((node) => node.name.value)).toEqual(['a', 'b']);
+  });
+
+  it('reports a missing brace before the next top level declaration', () => {
+    const { ast, errors } = parseProto(
+      'syntax = "proto3";\nmessage A {\n  int32 a = 1;\nmessage B {\n  int32 b = 1;\n}\n',
+    );
+    expect(errors).toMatchObject([
+      { message: 'Expect "}" after message fields', position: { line: 3, column: 15 } },
+    ]);
+    expect(ast!.messages.map((node) => node.name.value)).toEqual(['A', 'B']);
+  });
+
+  it('reports every broken statement once and keeps the rest of the file', () => {
+    const { ast, errors } = parseProto(
+      'syntax = "proto3";\nmessage A {\n  int32 a = ;\n  string b = 2;\n}\nenum E { X = 0 }\n',
+    );
+    expect(errors).toMatchObject([
+      { message: 'Expect field number', position: { line: 3, column: 13 } },
+      { message: 'Expect ";" after enum field value', position: { line: 6, column: 16 } },
+    ]);
+    expect(ast!.messages[0].fields.map((node) => node.name.value)).toContain('b');
+    expect(ast!.enums[0].fields.map((node) => node.name.value)).toEqual(['X']);
+  });
+
+  it('covers a run of unknown characters with a single error', () => {
+    const { ast, errors } = parseProto('syntax = "proto3";\nmessage A { @@@ $$$ int32 a = 1; }\n');
+    expect(errors).toMatchObject([
+      {
+        code: DiagnosticCode.UNKNOWN_CHARACTER,
+        position: { line: 2, column: 13, start: 31, end: 34 },
+      },
+      {
+        code: DiagnosticCode.UNKNOWN_CHARACTER,
+        position: { line: 2, column: 17, start: 35, end: 38 },
+      },
+    ]);
+    expect(ast!.messages[0].fields[0].name.value).toBe('a');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { compile, parseProto } from '@/compiler/compile';
+import { DiagnosticCode } from '@/diagnostic/define';
+import { ASTKind } from '@/parser/ASTType';
+
+describe('reserved names', () => {
+  it('parses identifiers in editions', () => {
+    const { ast, errors } = parseProto(
+      'edition = "2023";\nmessage M { reserved foo, bar; reserved 2 to 4; }\nenum E { A = 0; reserved baz; }',
+    );
+    expect(errors).toEqual([]);
+    expect(ast!.messages[0].reserved[0].ranges).toMatchObject([
+      { type: ASTKind.IDENTIFIER, value: 'foo' },
+      { type: ASTKind.IDENTIFIER, value: 'bar' },
+    ]);
+    expect(ast!.enums[0].reserved[0].ranges).toMatchObject([
+      { type: ASTKind.IDENTIFIER, value: 'baz' },
+    ]);
+  });
+
+  it('rejects fields with a reserved identifier name', () => {
+    const { errors } = compile('edition = "2023";\nmessage M { reserved foo; int32 foo = 1; }');
+    expect(errors).toMatchObject([{ code: DiagnosticCode.RESERVED_NAME }]);
+  });
+
+  it('still parses a field whose type is named reserved', () => {
+    const { ast, errors } = parseProto('syntax = "proto3";\nmessage M { reserved foo = 1; }');
+    expect(errors).toEqual([]);
+    expect(ast!.messages[0].fields[0].name.value).toBe('foo');
+  });
+
+  it('reports string literals in editions', () => {
+    const { errors } = compile('edition = "2023";\nmessage M { reserved "foo"; }');
+    expect(errors).toMatchObject([{ code: DiagnosticCode.INVALID_RESERVED_NAME }]);
+  });
+
+  it('reports identifiers before editions', () => {
+    const { errors } = compile('syntax = "proto3";\nenum E { A = 0; reserved foo; }');
+    expect(errors).toMatchObject([{ code: DiagnosticCode.INVALID_RESERVED_NAME }]);
+  });
+});
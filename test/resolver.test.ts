@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { DiagnosticCode } from '@/diagnostic/define';
+
+const SOURCE = `syntax = "proto3";
+package foo.bar;
+message Baz {}
+message Outer {
+  message Inner { Baz a = 1; }
+  message Baz { string s = 1; }
+  Inner inner = 1;
+  Outer.Inner inner2 = 2;
+  Baz local = 3;
+  .foo.bar.Baz global = 4;
+  bar.Baz partial = 5;
+  foo.bar.Outer.Baz full = 6;
+}`;
+
+describe('type references', () => {
+  it('resolves names from the innermost scope outwards', () => {
+    const { code, errors } = compile(SOURCE);
+    expect(errors).toEqual([]);
+    expect(code).toContain(`  export interface Inner {
+    a?: Outer.Baz;
+  }`);
+    expect(code).toContain(`export interface Outer {
+  inner?: Outer.Inner;
+  inner2?: Outer.Inner;
+  local?: Outer.Baz;
+  global?: Baz;
+  partial?: Baz;
+  full?: Outer.Baz;
+}`);
+  });
+
+  it('rewrites the names to the path of the package mode', () => {
+    const { code } = compile(SOURCE, { packageMode: 'flatten' });
+    expect(code).toContain('  global?: foo_bar_Baz;\n  partial?: foo_bar_Baz;');
+    expect(code).toContain('    a?: foo_bar_Outer.Baz;');
+  });
+
+  it('reports undefined types at the field type', () => {
+    const { errors } = compile(
+      'syntax = "proto3";\nmessage Outer {\n  message Inner {}\n  Missing a = 1;\n  Inner.Nope b = 2;\n}',
+    );
+    expect(errors).toMatchObject([
+      {
+        code: DiagnosticCode.UNDEFINED_TYPE,
+        message: '"Missing" is not defined',
+        position: { line: 4, column: 3 },
+      },
+      {
+        code: DiagnosticCode.UNDEFINED_TYPE,
+        message: '"Inner.Nope" is not defined',
+        position: { line: 5, column: 3 },
+      },
+    ]);
+  });
+
+  it('binds the first part of a name to the innermost match like protoc', () => {
+    const { errors } = compile(
+      'syntax = "proto3";\npackage foo.bar;\nmessage Baz {}\nmessage Outer {\n  message foo {}\n  foo.bar.Baz x = 1;\n  .foo.bar.Baz y = 2;\n}',
+    );
+    expect(errors).toMatchObject([
+      { message: '"foo.bar.Baz" is not defined', position: { line: 6, column: 3 } },
+    ]);
+  });
+
+  it('does not resolve enum values as types', () => {
+    const { errors } = compile(
+      'syntax = "proto3";\nenum E { E_UNSPECIFIED = 0; }\nmessage Q { E.E_UNSPECIFIED z = 1; }',
+    );
+    expect(errors).toMatchObject([{ code: DiagnosticCode.UNDEFINED_TYPE }]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { compile, parseProto } from '@/compiler/compile';
+import { DiagnosticCode } from '@/diagnostic/define';
+import { getTypeErrors } from './helper';
+
+const SOURCE = `syntax = "proto3";
+package demo.v1;
+message Req { string id = 1; }
+message Resp { string id = 1; }
+service Greeter {
+  rpc Get(Req) returns (Resp);
+  rpc Delete(Req) returns (Resp);
+}`;
+
+describe('services', () => {
+  it('generates client and server interfaces', () => {
+    const { code } = compile(SOURCE);
+    expect(code).toContain(`export interface GreeterClient {
+  Get: (request: Req) => Promise<Resp>;
+  Delete: (request: Req) => Promise<Resp>;
+}`);
+    expect(code).toContain(`export interface GreeterServer {
+  Get: (request: Req) => Resp | Promise<Resp>;
+  Delete: (request: Req) => Resp | Promise<Resp>;
+}`);
+  });
+
+  it('generates the descriptors of the methods', () => {
+    const { code } = compile(SOURCE);
+    expect(code).toContain(`export const GreeterMethods = {
+  Get: {
+    path: '/demo.v1.Greeter/Get',
+    requestType: 'demo.v1.Req',
+    responseType: 'demo.v1.Resp',
+    requestStream: false,
+    responseStream: false,
+  },`);
+    expect(code).toContain('} as const;');
+  });
+
+  it('types an implementation of the interfaces', () => {
+    const { code } = compile(SOURCE);
+    const usage = `
+const server: GreeterServer = {
+  Get: (request) => ({ id: request.id }),
+  Delete: async (request) => ({ id: request.id }),
+};
+const client: GreeterClient = {
+  Get: async (request) => server.Get(request),
+  Delete: async (request) => server.Delete(request),
+};
+const path: '/demo.v1.Greeter/Get' = GreeterMethods.Get.path;
+`;
+    expect(getTypeErrors(`${code}\n${usage}`, { strict: true })).toEqual([]);
+  }, 30000);
+
+  it('rejects methods whose types are not messages', () => {
+    const { errors } = compile(
+      'syntax = "proto3";\nenum E { E_UNSPECIFIED = 0; }\nmessage M {}\nservice S {\n  rpc Get(E) returns (M);\n}',
+    );
+    expect(errors).toMatchObject([
+      { code: DiagnosticCode.INVALID_METHOD_TYPE, message: '"E" is not a message type' },
+    ]);
+  });
+});
+
+const STREAMING_SOURCE = `syntax = "proto3";
+package demo.v1;
+message Req { string id = 1; }
+message Resp { string id = 1; }
+service Greeter {
+  rpc Get(Req) returns (Resp) {
+    option (google.api.http) = { get: "/v1/{id}" };
+  }
+  rpc Watch(.demo.v1.Req) returns (stream Resp);
+  rpc Upload(stream Req) returns (Resp);
+  rpc Chat(stream demo.v1.Req) returns (stream Resp) {}
+}`;
+
+describe('streaming methods', () => {
+  it('parses stream flags, qualified types and option blocks', () => {
+    const { ast, errors } = parseProto(STREAMING_SOURCE);
+    expect(errors).toEqual([]);
+    const methods = ast!.services[0].methods;
+    expect(
+      methods.map((node) => [node.inputType.value, node.clientStreaming, node.serverStreaming]),
+    ).toEqual([
+      ['Req', false, false],
+      ['.demo.v1.Req', false, true],
+      ['Req', true, false],
+      ['demo.v1.Req', true, true],
+    ]);
+    expect(methods[0].options[0].name.value).toBe('(google.api.http)');
+  });
+
+  it('types streams as AsyncIterable', () => {
+    const { code } = compile(STREAMING_SOURCE);
+    expect(code).toContain(`export interface GreeterClient {
+  Get: (request: Req) => Promise<Resp>;
+  Watch: (request: Req) => AsyncIterable<Resp>;
+  Upload: (request: AsyncIterable<Req>) => Promise<Resp>;
+  Chat: (request: AsyncIterable<Req>) => AsyncIterable<Resp>;
+}`);
+    expect(code).toContain(`  Upload: (request: AsyncIterable<Req>) => Resp | Promise<Resp>;`);
+    expect(code).toContain(`    requestStream: true,
+    responseStream: true,`);
+  });
+});
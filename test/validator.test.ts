@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { compile } from '@/compiler/compile';
+import { DiagnosticCode } from '@/diagnostic/define';
+
+const PROTO2 = 'syntax = "proto2";\n';
+const PROTO3 = 'syntax = "proto3";\n';
+const EDITION = 'edition = "2023";\n';
+
+function getDiagnostics(source: string) {
+  const { errors, warnings } = compile(source);
+  return [...errors, ...warnings].map(({ code, message, position }) => ({
+    code,
+    message,
+    position: `${position.line}:${position.column}`,
+  }));
+}
+
+describe('validator', () => {
+  it.each<[string, string]>([
+    [DiagnosticCode.INVALID_FIELD_NUMBER, `${PROTO3}message M { int32 a = 0; }`],
+    [DiagnosticCode.IMPLEMENTATION_FIELD_NUMBER, `${PROTO3}message M { int32 a = 19000; }`],
+    [DiagnosticCode.DUPLICATE_FIELD_NUMBER, `${PROTO3}message M { int32 a = 1; int32 b = 1; }`],
+    [DiagnosticCode.DUPLICATE_FIELD_NAME, `${PROTO3}message M { int32 a = 1; string a = 2; }`],
+    [DiagnosticCode.RESERVED_NUMBER, `${PROTO3}message M { reserved 1; int32 a = 1; }`],
+    [DiagnosticCode.RESERVED_NAME, `${PROTO3}message M { reserved "a"; int32 a = 1; }`],
+    [
+      DiagnosticCode.FIELD_IN_EXTENSION_RANGE,
+      `${PROTO2}message M { extensions 1 to 10; optional int32 a = 1; }`,
+    ],
+    [DiagnosticCode.REQUIRED_IN_PROTO3, `${PROTO3}message M { required int32 a = 1; }`],
+    [DiagnosticCode.DUPLICATE_TYPE_NAME, `${PROTO3}message A {}\nmessage A {}`],
+    [DiagnosticCode.EMPTY_ENUM, `${PROTO3}enum E {}`],
+    [DiagnosticCode.FIRST_ENUM_VALUE_NOT_ZERO, `${PROTO3}enum E { A = 1; }`],
+    [DiagnosticCode.DUPLICATE_ENUM_VALUE, `${PROTO3}enum E { A = 0; B = 0; }`],
+    [
+      DiagnosticCode.EXTENDEE_NOT_MESSAGE,
+      `${PROTO2}enum E { A = 0; }\nextend E { optional int32 a = 1; }`,
+    ],
+    [
+      DiagnosticCode.UNDECLARED_EXTENSION_NUMBER,
+      `${PROTO2}message M { extensions 10 to 20; }\nextend M { optional int32 a = 1; }`,
+    ],
+    [DiagnosticCode.INVALID_ENUM_VALUE, `${PROTO3}enum E { A = 0; B = 2147483648; }`],
+    [DiagnosticCode.UNSUPPORTED_EDITION, 'edition = "2099";'],
+    [DiagnosticCode.LABEL_IN_EDITIONS, `${EDITION}message M { optional int32 a = 1; }`],
+    [DiagnosticCode.INVALID_FEATURE, `${PROTO3}option features.field_presence = EXPLICIT;`],
+    [DiagnosticCode.INVALID_GROUP, `${PROTO3}message M { group G = 1 {} }`],
+    [DiagnosticCode.INVALID_DEFAULT, `${PROTO3}message M { int32 a = 1 [default = 1]; }`],
+    [DiagnosticCode.INVALID_RESERVED_NAME, `${EDITION}message M { reserved "a"; }`],
+    [
+      DiagnosticCode.INVALID_ONEOF_FIELD,
+      `${PROTO3}message M { oneof o { repeated int32 a = 1; } }`,
+    ],
+    [DiagnosticCode.EMPTY_ONEOF, `${PROTO3}message M { oneof o {} }`],
+    [DiagnosticCode.DUPLICATE_ENUM_VALUE_NAME, `${PROTO3}enum A { X = 0; }\nenum B { X = 0; }`],
+    [
+      DiagnosticCode.DUPLICATE_METHOD_NAME,
+      `${PROTO3}message M {}\nservice S { rpc Get(M) returns (M); rpc Get(M) returns (M); }`,
+    ],
+    [
+      DiagnosticCode.INVALID_METHOD_TYPE,
+      `${PROTO3}message M {}\nenum E { A = 0; }\nservice S { rpc Get(E) returns (M); }`,
+    ],
+    [DiagnosticCode.MISSING_SYNTAX, 'message M {}'],
+    [
+      DiagnosticCode.UNSUPPORTED_PATTERN,
+      `${PROTO3}message M { string a = 1 [(validate.rules).string.pattern = "(?i)a"]; }`,
+    ],
+  ])('reports %s', (code, source) => {
+    expect(getDiagnostics(source).map((item) => item.code)).toEqual([code]);
+  });
+
+  it('reports labels and maps in oneofs', () => {
+    expect(
+      getDiagnostics(`${PROTO2}message M {
+  oneof o {
+    optional int32 a = 1;
+    map<string, int32> b = 2;
+    int32 c = 3;
+  }
+}`),
+    ).toEqual([
+      {
+        code: DiagnosticCode.INVALID_ONEOF_FIELD,
+        message: 'Fields in oneofs must not have labels, remove "optional"',
+        position: '4:5',
+      },
+      {
+        code: DiagnosticCode.INVALID_ONEOF_FIELD,
+        message: 'Map fields are not allowed in oneofs',
+        position: '5:5',
+      },
+    ]);
+  });
+
+  it('reports enum values that clash in the enclosing scope', () => {
+    expect(
+      getDiagnostics(`${PROTO3}package p;
+enum A { X = 0; Y = 1; }
+enum B { X = 0; Y = 1; }
+message Z { enum C { NONE = 0; m = 1; } int32 m = 1; }
+enum D { Z = 0; }`),
+    ).toEqual([
+      {
+        code: DiagnosticCode.DUPLICATE_ENUM_VALUE_NAME,
+        message:
+          '"X" is already defined in "p" by enum "A", enum values are siblings of their enum and must be unique in its scope',
+        position: '4:10',
+      },
+      {
+        code: DiagnosticCode.DUPLICATE_ENUM_VALUE_NAME,
+        message:
+          '"Y" is already defined in "p" by enum "A", enum values are siblings of their enum and must be unique in its scope',
+        position: '4:17',
+      },
+      {
+        code: DiagnosticCode.DUPLICATE_ENUM_VALUE_NAME,
+        message: '"Z" is already defined in "p"',
+        position: '6:10',
+      },
+      {
+        code: DiagnosticCode.DUPLICATE_ENUM_VALUE_NAME,
+        message: '"m" is already defined in "p.Z"',
+        position: '5:32',
+      },
+    ]);
+  });
+
+  it('reports enums as input and output types of methods', () => {
+    expect(
+      getDiagnostics(`${PROTO3}message M {}
+enum E { A = 0; }
+service S { rpc Get(M) returns (stream E); }`),
+    ).toEqual([
+      {
+        code: DiagnosticCode.INVALID_METHOD_TYPE,
+        message: '"E" is not a message type',
+        position: '4:40',
+      },
+    ]);
+  });
+});
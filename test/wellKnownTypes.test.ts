@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { compileProject } from '@/compiler/compileProject';
+import type { GenerateOptions } from '@/compiler/Generate';
+import { importCode } from './helper';
+
+type Guard = (value: unknown) => boolean;
+
+const SOURCE = `syntax = "proto3";
+import "google/protobuf/timestamp.proto";
+import "google/protobuf/duration.proto";
+import "google/protobuf/wrappers.proto";
+import "google/protobuf/struct.proto";
+import "google/protobuf/any.proto";
+import "google/protobuf/empty.proto";
+message W {
+  google.protobuf.Timestamp at = 1;
+  google.protobuf.Duration took = 2;
+  google.protobuf.StringValue name = 3;
+  google.protobuf.Int64Value count = 4;
+  google.protobuf.Struct data = 5;
+  google.protobuf.Value value = 6;
+  google.protobuf.Any any = 7;
+  google.protobuf.Empty empty = 8;
+  google.protobuf.ListValue list = 9;
+}
+`;
+
+/** generated code of the file importing the well-known types */
+function compileTypes(options: Partial<GenerateOptions>): string {
+  const { files, errors } = compileProject(['w.proto'], { files: { 'w.proto': SOURCE } }, options);
+  expect(errors).toEqual([]);
+  return files[0].code;
+}
+
+describe('well-known types', () => {
+  it('bundles the definitions of google/protobuf', () => {
+    const { files } = compileProject(['w.proto'], { files: { 'w.proto': SOURCE } });
+    expect(files.map((file) => file.path)).toEqual([
+      'w.proto',
+      'google/protobuf/timestamp.proto',
+      'google/protobuf/duration.proto',
+      'google/protobuf/wrappers.proto',
+      'google/protobuf/struct.proto',
+      'google/protobuf/any.proto',
+      'google/protobuf/empty.proto',
+    ]);
+  });
+
+  it('imports them as messages by default', () => {
+    const code = compileTypes({});
+    expect(code).toContain("import type { Timestamp } from './google/protobuf/timestamp';");
+    expect(code).toContain('  at?: Timestamp;\n  took?: Duration;\n  name?: StringValue;');
+  });
+
+  it('maps them to idiomatic types', () => {
+    const code = compileTypes({ wellKnownTypes: 'idiomatic' });
+    expect(code).not.toContain('import');
+    expect(code).toContain(`export interface W {
+  at?: string | Date;
+  took?: string;
+  name?: string | null;
+  count?: number | null;
+  data?: Record<string, unknown>;
+  value?: unknown;
+  any?: { '@type': string; [key: string]: unknown };
+  empty?: Record<string, never>;
+  list?: unknown[];
+}`);
+  });
+
+  it('checks the idiomatic types in guards', async () => {
+    const code = compileTypes({ wellKnownTypes: 'idiomatic', guards: true });
+    const { isW } = await importCode<{ isW: Guard }>(code);
+    expect(
+      isW({
+        at: new Date(0),
+        took: '1.5s',
+        name: null,
+        count: 3,
+        data: { a: [1] },
+        value: 'anything',
+        any: { '@type': 'type.googleapis.com/W', at: '1970-01-01T00:00:00Z' },
+        empty: {},
+        list: [1, 'a'],
+      }),
+    ).toBe(true);
+    expect(isW({ at: 0 })).toBe(false);
+    expect(isW({ count: 1.5 })).toBe(false);
+    expect(isW({ any: {} })).toBe(false);
+    expect(isW({ empty: { a: 1 } })).toBe(false);
+  });
+});
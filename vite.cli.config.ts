@@ -0,0 +1,25 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+/** the `proto2ts` command, built for node next to the library */
+export default defineConfig({
+  build: {
+    ssr: './src/cli/index.ts',
+    outDir: 'dist',
+    emptyOutDir: false,
+    sourcemap: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'cli.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+      '~': path.resolve(__dirname, '.'),
+    },
+  },
+});